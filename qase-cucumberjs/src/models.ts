@@ -3,4 +3,5 @@ interface TestMetadata {
   ids : number[];
   fields : Record<string, string>;
   title : string | null;
+  issues : string[];
 }
@@ -26,6 +26,7 @@ const qaseIdRegExp = /^@[Qq]-?(\d+)$/g;
 const newQaseIdRegExp = /^@[Qq]ase[Ii][Dd]=(\d+)$/g;
 const qaseTitleRegExp = /^@[Qq]ase[Tt]itle=(.+)$/g;
 const qaseFieldsRegExp = /^@[Qq]ase[Ff]ields:(.+?)=(.+)$/g;
+const qaseIssueRegExp = /^@[Qq]ase[Ii]ssue=(.+)$/;
 
 export class Storage {
   /**
@@ -240,6 +241,7 @@ export class Storage {
       testops_id: metadata.ids.length > 0 ? metadata.ids : null,
       id: tcs.id,
       title: metadata.title ?? pickle.name,
+      issues: metadata.issues,
     };
   }
 
@@ -322,6 +324,7 @@ export class Storage {
       ids: [],
       fields: {},
       title: null,
+      issues: [],
     };
 
     for (const tag of tags) {
@@ -340,6 +343,11 @@ export class Storage {
         continue;
       }
 
+      if (qaseIssueRegExp.test(tag.name)) {
+        metadata.issues.push(...tag.name.replace(/^@[Qq]ase[Ii]ssue=/, '').split(','));
+        continue;
+      }
+
       if (qaseFieldsRegExp.test(tag.name)) {
         const value = tag.name.replace(/^@[Qq]ase[Ff]ields:/, '');
         try {
@@ -1 +1 @@
-export { qase } from './mocha';
+export { qase, qaseIssue } from './mocha';
@@ -10,3 +10,14 @@ export const qase = (
 
   return test;
 };
+
+export const qaseIssue = (
+  issue: string | string[],
+  test: Test,
+) => {
+  const issues = Array.isArray(issue) ? issue : [issue];
+
+  test.title = `${test.title} (Qase Issue: ${issues.join(',')})`;
+
+  return test;
+};
@@ -24,6 +24,7 @@ const {
   EVENT_TEST_FAIL,
   EVENT_TEST_PASS,
   EVENT_TEST_PENDING,
+  EVENT_TEST_RETRY,
   EVENT_RUN_END,
 } = Runner.constants;
 
@@ -43,6 +44,11 @@ export class CypressQaseReporter extends reporters.Base {
    */
   static qaseIdRegExp = /\(Qase ID:? ([\d,]+)\)/;
 
+  /**
+   * @type {RegExp}
+   */
+  static qaseIssueRegExp = /\s*\(Qase Issue:? ([^)]+)\)/g;
+
   /**
    * @type {Record<CypressState, TestStatusEnum>}
    */
@@ -63,6 +69,28 @@ export class CypressQaseReporter extends reporters.Base {
     return ids ? ids.split(',').map((id) => Number(id)) : [];
   }
 
+  /**
+   * @param {string} title
+   * @returns {string[]}
+   * @private
+   */
+  private static getIssues(title: string) {
+    return [...title.matchAll(CypressQaseReporter.qaseIssueRegExp)]
+      .flatMap(([, issues]) => issues?.split(',') ?? [])
+      .map((issue) => issue.trim());
+  }
+
+  /**
+   * The issues are left out of the title, so that linking an issue doesn't change the signature
+   *
+   * @param {string} title
+   * @returns {string}
+   * @private
+   */
+  private static removeIssues(title: string) {
+    return title.replace(CypressQaseReporter.qaseIssueRegExp, '');
+  }
+
   /**
    * @param {number[]} ids
    * @param {string} dir
@@ -146,6 +174,7 @@ export class CypressQaseReporter extends reporters.Base {
     runner.on(EVENT_TEST_PASS, (test: Test) => this.addTestResult(test));
     runner.on(EVENT_TEST_PENDING, (test: Test) => this.addTestResult(test));
     runner.on(EVENT_TEST_FAIL, (test: Test) => this.addTestResult(test));
+    runner.on(EVENT_TEST_RETRY, (test: Test, error: Error) => this.addTestAttempt(test, error));
 
     // eslint-disable-next-line @typescript-eslint/no-misused-promises
     runner.once(EVENT_RUN_END, () => {
@@ -166,7 +195,27 @@ export class CypressQaseReporter extends reporters.Base {
    * @private
    */
   private addTestResult(test: Test) {
+    void this.reporter.addTestResult(this.createTestResult(test));
+  }
+
+  /**
+   * @param {Test} test failed attempt which is going to be retried
+   * @param {Error} error
+   * @private
+   */
+  private addTestAttempt(test: Test, error: Error) {
+    this.reporter.addTestAttempt(this.createTestResult(test, error));
+  }
+
+  /**
+   * @param {Test} test
+   * @param {Error | undefined} error of the attempt, Mocha doesn't set the state of the retried tests
+   * @returns {TestResultType}
+   * @private
+   */
+  private createTestResult(test: Test, error?: Error): TestResultType {
     const ids = CypressQaseReporter.getCaseId(test.title);
+    const issues = CypressQaseReporter.getIssues(test.title);
 
     const attachments = this.screenshotsFolder
       ? CypressQaseReporter.findAttachments(ids, this.screenshotsFolder)
@@ -193,7 +242,7 @@ export class CypressQaseReporter extends reporters.Base {
       attachments: attachments ?? [],
       author: null,
       fields: {},
-      message: test.err?.message ?? null,
+      message: (error ?? test.err)?.message ?? null,
       muted: false,
       params: {},
       group_params: {},
@@ -203,20 +252,23 @@ export class CypressQaseReporter extends reporters.Base {
       steps: [],
       id: uuidv4(),
       execution: {
-        status: test.state
-          ? CypressQaseReporter.statusMap[test.state]
-          : TestStatusEnum.invalid,
+        status: error
+          ? TestStatusEnum.failed
+          : test.state
+            ? CypressQaseReporter.statusMap[test.state]
+            : TestStatusEnum.invalid,
         start_time: null,
         end_time: null,
         duration: test.duration ?? 0,
-        stacktrace: test.err?.stack ?? null,
+        stacktrace: (error ?? test.err)?.stack ?? null,
         thread: null,
       },
       testops_id: ids.length > 0 ? ids : null,
-      title: test.title,
+      title: CypressQaseReporter.removeIssues(test.title),
+      issues,
     };
 
-    void this.reporter.addTestResult(result);
+    return result;
   }
 
   /**
@@ -238,7 +290,7 @@ export class CypressQaseReporter extends reporters.Base {
       }
     }
 
-    signature += '::' + test.title.toLowerCase().replace(/\s/g, '_');
+    signature += '::' + CypressQaseReporter.removeIssues(test.title).toLowerCase().replace(/\s/g, '_');
 
     if (ids.length > 0) {
       signature += '::' + ids.join('::');
@@ -0,0 +1,390 @@
+import chalk from 'chalk';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { AttachmentUploadsResponse, QaseApiInterface } from 'qaseio';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+
+import { Attachment } from '../models';
+import { isAxiosError } from '../utils/is-axios-error';
+import { LoggerInterface } from '../utils/logger';
+
+export interface AttachmentUploaderOptionsType {
+  concurrency?: number | undefined;
+  // MB
+  maxFileSize?: number | undefined;
+  // MB, the duplicates are counted once
+  maxRunSize?: number | undefined;
+  compress?: boolean | undefined;
+  retries?: number | undefined;
+}
+
+export interface AttachmentUploadFailureType {
+  attachment: Attachment;
+  error: unknown;
+}
+
+export interface AttachmentUploadResultType {
+  hashes: string[];
+  // the attachments which were not uploaded because of an error
+  failed: AttachmentUploadFailureType[];
+}
+
+interface UploadFileType {
+  name: string;
+  content: Buffer;
+}
+
+interface QueuedFileType extends UploadFileType {
+  resolve: (hash: string) => void;
+  reject: (error: unknown) => void;
+}
+
+const megabyte = 1024 * 1024;
+
+// limits of a request to Qase
+const maxFilesPerRequest = 20;
+const maxRequestSize = 128 * megabyte;
+
+// the files read and not uploaded yet
+const maxBufferedSize = 2 * maxRequestSize;
+
+const defaultConcurrency = 4;
+const defaultMaxFileSize = 32;
+const compressThreshold = 64 * 1024;
+const defaultRetries = 3;
+const retryDelay = 500;
+
+const gzipAsync = promisify(gzip);
+
+/**
+ * @param {number} ms
+ * @returns {Promise<void>}
+ */
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * @param {unknown} error
+ * @returns {boolean} whether the request may succeed if it's sent again
+ */
+const isRetryable = (error: unknown): boolean => {
+  if (!isAxiosError(error)) {
+    return false;
+  }
+
+  const status = error.response?.status;
+
+  return status === undefined || status === 429 || status >= 500;
+};
+
+/**
+ * Uploads the attachments of a run: the files queued at the same time are sent in one request,
+ * a few requests at a time, and the files with the same content are uploaded once
+ *
+ * @class AttachmentUploader
+ */
+export class AttachmentUploader {
+  private readonly concurrency: number;
+  private readonly maxFileSize: number;
+  private readonly maxRunSize: number;
+  private readonly compress: boolean;
+  private readonly retries: number;
+
+  /**
+   * Hashes of the uploads keyed by the hash of the content
+   * @type {Map<string, Promise<string>>}
+   * @private
+   */
+  private readonly uploads = new Map<string, Promise<string>>();
+
+  private readonly queue: QueuedFileType[] = [];
+
+  private activeRequests = 0;
+
+  private uploadedSize = 0;
+
+  /**
+   * Size of the files read and not uploaded yet
+   * @type {number}
+   * @private
+   */
+  private bufferedSize = 0;
+
+  /**
+   * The reads waiting for the buffered files to be uploaded
+   * @type {(() => void)[]}
+   * @private
+   */
+  private readonly waitingReads: (() => void)[] = [];
+
+  /**
+   * @param {LoggerInterface} logger
+   * @param {QaseApiInterface} api
+   * @param {string} projectCode
+   * @param {AttachmentUploaderOptionsType} options
+   */
+  constructor(
+    private readonly logger: LoggerInterface,
+    private readonly api: QaseApiInterface,
+    private readonly projectCode: string,
+    options: AttachmentUploaderOptionsType = {},
+  ) {
+    this.concurrency = Math.max(1, options.concurrency ?? defaultConcurrency);
+    this.maxFileSize = (options.maxFileSize ?? defaultMaxFileSize) * megabyte;
+    this.maxRunSize = options.maxRunSize === undefined ? Infinity : options.maxRunSize * megabyte;
+    this.compress = options.compress ?? false;
+    this.retries = Math.max(0, options.retries ?? defaultRetries);
+  }
+
+  /**
+   * @param {Attachment[]} attachments
+   * @returns {Promise<AttachmentUploadResultType>}
+   */
+  public async upload(attachments: Attachment[]): Promise<AttachmentUploadResultType> {
+    const uploads = await Promise.all(attachments.map(async (attachment) => {
+      try {
+        return { attachment, hash: await this.uploadAttachment(attachment), failed: false, error: undefined };
+      } catch (error) {
+        this.logger.logError(`Cannot upload attachment ${attachment.file_name}:`, error);
+
+        return { attachment, hash: undefined, failed: true, error };
+      }
+    }));
+
+    return {
+      hashes: uploads.map(({ hash }) => hash).filter((hash): hash is string => hash !== undefined),
+      failed: uploads.filter(({ failed }) => failed).map(({ attachment, error }) => ({ attachment, error })),
+    };
+  }
+
+  /**
+   * @param {Attachment} attachment
+   * @returns {Promise<string | undefined>} the hash of the upload, `undefined` if the attachment is over the limits
+   * @private
+   */
+  private async uploadAttachment(attachment: Attachment): Promise<string | undefined> {
+    this.logger.logDebug(`Uploading attachment: ${attachment.file_path ?? attachment.file_name}`);
+
+    const size = await this.getSize(attachment);
+
+    if (size > this.maxFileSize) {
+      this.logger.log(chalk`{yellow Attachment ${attachment.file_name} is larger than ${this.maxFileSize / megabyte} MB, it is not uploaded}`);
+      return undefined;
+    }
+
+    await this.reserve(size);
+
+    try {
+      const content = await this.readContent(attachment);
+      const key = createHash('sha256').update(content).digest('hex');
+      const existing = this.uploads.get(key);
+
+      if (existing) {
+        this.logger.logDebug(`Attachment ${attachment.file_name} has the same content as an uploaded one`);
+        return existing;
+      }
+
+      if (this.uploadedSize + content.length > this.maxRunSize) {
+        this.logger.log(chalk`{yellow Attachments of the run exceed ${this.maxRunSize / megabyte} MB, ${attachment.file_name} is not uploaded}`);
+        return undefined;
+      }
+
+      this.uploadedSize += content.length;
+
+      const upload = this.prepare(attachment, content).then((file) => this.enqueue(file));
+
+      this.uploads.set(key, upload);
+
+      // the content may be uploaded with a later result
+      upload.catch(() => {
+        this.uploads.delete(key);
+        this.uploadedSize -= content.length;
+      });
+
+      return await upload;
+    } finally {
+      this.release(size);
+    }
+  }
+
+  /**
+   * @param {Attachment} attachment
+   * @returns {Promise<number>} the size of the attachment, the file is not read
+   * @private
+   */
+  private async getSize(attachment: Attachment): Promise<number> {
+    if (attachment.file_path) {
+      const { size } = await fs.stat(attachment.file_path);
+
+      return size;
+    }
+
+    return Buffer.byteLength(attachment.content);
+  }
+
+  /**
+   * Waits until the files read before are uploaded, so only a part of the attachments is kept in memory
+   *
+   * @param {number} size
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async reserve(size: number): Promise<void> {
+    while (this.bufferedSize > 0 && this.bufferedSize + size > maxBufferedSize) {
+      await new Promise<void>((resolve) => this.waitingReads.push(resolve));
+    }
+
+    this.bufferedSize += size;
+  }
+
+  /**
+   * @param {number} size
+   * @private
+   */
+  private release(size: number): void {
+    this.bufferedSize -= size;
+
+    for (const resolve of this.waitingReads.splice(0)) {
+      resolve();
+    }
+  }
+
+  /**
+   * @param {Attachment} attachment
+   * @returns {Promise<Buffer>}
+   * @private
+   */
+  private readContent(attachment: Attachment): Promise<Buffer> {
+    if (attachment.file_path) {
+      return fs.readFile(attachment.file_path);
+    }
+
+    return Promise.resolve(typeof attachment.content === 'string' ? Buffer.from(attachment.content) : attachment.content);
+  }
+
+  /**
+   * Large text attachments, e.g. logs, are compressed, the name of the file is kept
+   *
+   * @param {Attachment} attachment
+   * @param {Buffer} content
+   * @returns {Promise<UploadFileType>}
+   * @private
+   */
+  private async prepare(attachment: Attachment, content: Buffer): Promise<UploadFileType> {
+    if (!this.compress || !attachment.mime_type.startsWith('text/') || content.length < compressThreshold) {
+      return { name: attachment.file_name, content };
+    }
+
+    return { name: attachment.file_name, content: await gzipAsync(content) };
+  }
+
+  /**
+   * @param {UploadFileType} file
+   * @returns {Promise<string>}
+   * @private
+   */
+  private enqueue(file: UploadFileType): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ ...file, resolve, reject });
+      // the files queued at the same time are sent together
+      setImmediate(() => this.drain());
+    });
+  }
+
+  /**
+   * @private
+   */
+  private drain(): void {
+    while (this.activeRequests < this.concurrency && this.queue.length > 0) {
+      this.activeRequests++;
+
+      void this.sendFiles(this.takeFiles()).finally(() => {
+        this.activeRequests--;
+        this.drain();
+      });
+    }
+  }
+
+  /**
+   * @returns {QueuedFileType[]} the files of the next request
+   * @private
+   */
+  private takeFiles(): QueuedFileType[] {
+    const files: QueuedFileType[] = [];
+    let size = 0;
+
+    for (let file = this.queue[0]; file !== undefined; file = this.queue[0]) {
+      if (files.length === maxFilesPerRequest || (files.length > 0 && size + file.content.length > maxRequestSize)) {
+        break;
+      }
+
+      files.push(file);
+      size += file.content.length;
+      this.queue.shift();
+    }
+
+    return files;
+  }
+
+  /**
+   * @param {QueuedFileType[]} files
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async sendFiles(files: QueuedFileType[]): Promise<void> {
+    try {
+      const data = await this.uploadWithRetries(files);
+      const hashes = new Map<string, string[]>();
+
+      // the files with the same name get the hashes in the order of the request
+      for (const { filename, hash } of data.result ?? []) {
+        if (filename !== undefined && hash !== undefined) {
+          hashes.set(filename, [...hashes.get(filename) ?? [], hash]);
+        }
+      }
+
+      for (const file of files) {
+        const hash = hashes.get(file.name)?.shift();
+
+        if (hash === undefined) {
+          file.reject(new Error(`Cannot upload attachment ${file.name}: no hash in the response`));
+        } else {
+          file.resolve(hash);
+        }
+      }
+    } catch (error) {
+      for (const file of files) {
+        file.reject(error);
+      }
+    }
+  }
+
+  /**
+   * The API client doesn't retry the uploads, they are POST requests
+   *
+   * @param {UploadFileType[]} files
+   * @returns {Promise<AttachmentUploadsResponse>}
+   * @private
+   */
+  private async uploadWithRetries(files: UploadFileType[]): Promise<AttachmentUploadsResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const { data } = await this.api.attachments.uploadAttachment(
+          this.projectCode,
+          files.map(({ name, content }) => ({ name, value: content })),
+        );
+
+        return data;
+      } catch (error) {
+        if (attempt >= this.retries || !isRetryable(error)) {
+          throw error;
+        }
+
+        const delay = retryDelay * 2 ** attempt;
+
+        this.logger.logDebug(`Uploading ${files.length} attachments failed, retrying in ${delay} ms`);
+        await sleep(delay);
+      }
+    }
+  }
+}
@@ -0,0 +1,6 @@
+export {
+  AttachmentUploader,
+  type AttachmentUploaderOptionsType,
+  type AttachmentUploadFailureType,
+  type AttachmentUploadResultType,
+} from './attachment-uploader';
@@ -0,0 +1,366 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import * as path from 'path';
+
+import { QaseApiInterface, TestCase, TestCasebulkCasesInner } from 'qaseio';
+
+import { TestResultType } from '../models';
+import { LoggerInterface } from '../utils/logger';
+import { QaseError } from '../utils/qase-error';
+
+export interface CaseSyncOptionsType {
+  cachePath?: string | undefined;
+  rootSuite?: string | undefined;
+}
+
+const defaultCachePath = path.join('.qase', 'cases.json');
+const automatedStatus = 2;
+const itemsPerPage = 100;
+
+/**
+ * Links the results without Qase IDs to the test cases by their signatures,
+ * creating the cases which don't exist yet. A case is identified by its suite and title,
+ * and the signature → case ID map is cached in a file, so the next runs don't look the cases up again.
+ *
+ * @class CaseSync
+ */
+export class CaseSync {
+  private readonly cachePath: string;
+  private readonly rootSuite: string | undefined;
+
+  /**
+   * @type {Record<string, number>}
+   * @private
+   */
+  private cases: Record<string, number>;
+
+  /**
+   * Suite IDs keyed by the titles of the suite and its parents
+   * @type {Map<string, number>}
+   * @private
+   */
+  private readonly suites = new Map<string, number>();
+
+  /**
+   * Case IDs keyed by their titles, for each suite which was looked up
+   * @type {Map<number, Map<string, number>>}
+   * @private
+   */
+  private readonly suiteCases = new Map<number, Map<string, number>>();
+
+  /**
+   * @param {LoggerInterface} logger
+   * @param {QaseApiInterface} api
+   * @param {string} projectCode
+   * @param {CaseSyncOptionsType} options
+   */
+  constructor(
+    private readonly logger: LoggerInterface,
+    private readonly api: QaseApiInterface,
+    private readonly projectCode: string,
+    options: CaseSyncOptionsType = {},
+  ) {
+    this.cachePath = options.cachePath ?? defaultCachePath;
+    this.rootSuite = options.rootSuite;
+    this.cases = this.readCache();
+  }
+
+  /**
+   * Sets `testops_id` of the results which have a signature but no Qase ID
+   *
+   * @param {TestResultType[]} results
+   * @returns {Promise<void>}
+   */
+  public async sync(results: TestResultType[]): Promise<void> {
+    const unlinked = results.filter(({ testops_id, signature }) => testops_id === null && signature !== '');
+    // the results of the same case, e.g. with different parameters, have different signatures
+    const unknownCases = new Map<string, TestResultType[]>();
+
+    for (const result of unlinked) {
+      const id = this.cases[result.signature];
+
+      if (id !== undefined) {
+        result.testops_id = id;
+        continue;
+      }
+
+      const key = [...this.getSuiteTitles(result), result.title].join('\t');
+
+      unknownCases.set(key, [...unknownCases.get(key) ?? [], result]);
+    }
+
+    const missing: TestResultType[][] = [];
+
+    for (const caseResults of unknownCases.values()) {
+      const [result] = caseResults;
+
+      if (result === undefined) {
+        continue;
+      }
+
+      const suiteId = await this.getSuiteId(this.getSuiteTitles(result));
+      const existingId = await this.findCase(result.title, suiteId);
+
+      if (existingId === undefined) {
+        missing.push(caseResults);
+      } else {
+        this.link(caseResults, existingId);
+      }
+    }
+
+    await this.createCases(missing);
+
+    if (unlinked.length > 0) {
+      this.writeCache();
+    }
+  }
+
+  /**
+   * Signatures of the tests linked to the cases by an earlier sync
+   *
+   * @param {number[]} caseIds
+   * @returns {string[]}
+   */
+  public getSignatures(caseIds: number[]): string[] {
+    const ids = new Set(caseIds);
+
+    return Object.entries(this.cases)
+      .filter(([, id]) => ids.has(id))
+      .map(([signature]) => signature);
+  }
+
+  /**
+   * @param {TestResultType[]} results
+   * @param {number} caseId
+   * @private
+   */
+  private link(results: TestResultType[], caseId: number): void {
+    for (const result of results) {
+      this.cases[result.signature] = caseId;
+      result.testops_id = caseId;
+    }
+  }
+
+  /**
+   * @param {TestResultType[][]} missing the results of each case to create
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async createCases(missing: TestResultType[][]): Promise<void> {
+    const unique = missing.map(([result]) => result).filter((result): result is TestResultType => result !== undefined);
+
+    if (unique.length === 0) {
+      return;
+    }
+
+    const cases: TestCasebulkCasesInner[] = [];
+
+    for (const result of unique) {
+      const suiteId = await this.getSuiteId(this.getSuiteTitles(result));
+      const testCase: TestCasebulkCasesInner = {
+        title: result.title,
+        automation: automatedStatus,
+      };
+
+      if (suiteId !== undefined) {
+        testCase.suite_id = suiteId;
+      }
+
+      for (const field of ['description', 'preconditions', 'postconditions'] as const) {
+        const value = result.fields[field];
+
+        if (value) {
+          testCase[field] = value;
+        }
+      }
+
+      cases.push(testCase);
+    }
+
+    const { data } = await this.api.cases.bulk(this.projectCode, { cases });
+    const ids = data.result?.ids ?? [];
+
+    if (ids.length !== unique.length) {
+      throw new QaseError(`Expected ${unique.length} created cases, got ${ids.length}`);
+    }
+
+    for (const [index, id] of ids.entries()) {
+      this.link(missing[index] ?? [], id);
+    }
+
+    this.logger.logDebug(`Test cases created: ${ids.join(', ')}`);
+  }
+
+  /**
+   * The cases of a suite are fetched once for all its results
+   *
+   * @param {string} title
+   * @param {number | undefined} suiteId
+   * @returns {Promise<number | undefined>}
+   * @private
+   */
+  private async findCase(title: string, suiteId: number | undefined): Promise<number | undefined> {
+    if (suiteId === undefined) {
+      // the cases outside the suites are searched by the title, rather than listing the whole project
+      const cases = await this.getCases(title, undefined);
+
+      return cases.find((testCase) => testCase.title === title && !testCase.suite_id)?.id;
+    }
+
+    let suiteCases = this.suiteCases.get(suiteId);
+
+    if (suiteCases === undefined) {
+      const cases = await this.getCases(undefined, suiteId);
+
+      suiteCases = new Map(cases.flatMap(({ id, title, suite_id }): [string, number][] => (
+        suite_id === suiteId && id !== undefined && title !== undefined ? [[title, id]] : []
+      )));
+      this.suiteCases.set(suiteId, suiteCases);
+    }
+
+    return suiteCases.get(title);
+  }
+
+  /**
+   * @param {string | undefined} search
+   * @param {number | undefined} suiteId
+   * @returns {Promise<TestCase[]>}
+   * @private
+   */
+  private async getCases(search: string | undefined, suiteId: number | undefined): Promise<TestCase[]> {
+    const cases: TestCase[] = [];
+
+    for (let offset = 0; ; offset += itemsPerPage) {
+      const { data } = await this.api.cases.getCases(
+        this.projectCode,
+        search,
+        undefined,
+        suiteId,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        itemsPerPage,
+        offset,
+      );
+      const entities = data.result?.entities ?? [];
+
+      cases.push(...entities);
+
+      if (entities.length < itemsPerPage) {
+        return cases;
+      }
+    }
+  }
+
+  /**
+   * @param {string} title
+   * @param {number | undefined} parentId
+   * @returns {Promise<number | undefined>}
+   * @private
+   */
+  private async findSuite(title: string, parentId: number | undefined): Promise<number | undefined> {
+    for (let offset = 0; ; offset += itemsPerPage) {
+      const { data } = await this.api.suites.getSuites(this.projectCode, title, itemsPerPage, offset);
+      const entities = data.result?.entities ?? [];
+      const suite = entities.find((entity) => entity.title === title && (entity.parent_id ?? undefined) === parentId);
+
+      if (suite?.id !== undefined) {
+        return suite.id;
+      }
+
+      if (entities.length < itemsPerPage) {
+        return undefined;
+      }
+    }
+  }
+
+  /**
+   * Finds or creates the suite and its parents
+   *
+   * @param {string[]} titles
+   * @returns {Promise<number | undefined>}
+   * @private
+   */
+  private async getSuiteId(titles: string[]): Promise<number | undefined> {
+    let parentId: number | undefined;
+
+    for (const [index, title] of titles.entries()) {
+      const key = titles.slice(0, index + 1).join('\t');
+      let suiteId = this.suites.get(key);
+
+      if (suiteId === undefined) {
+        suiteId = await this.findSuite(title, parentId);
+      }
+
+      if (suiteId === undefined) {
+        const { data } = await this.api.suites.createSuite(this.projectCode, {
+          title,
+          parent_id: parentId ?? null,
+        });
+
+        suiteId = data.result?.id;
+
+        if (suiteId === undefined) {
+          throw new QaseError(`Cannot create suite "${title}"`);
+        }
+
+        // a new suite has no cases to look up
+        this.suiteCases.set(suiteId, new Map());
+        this.logger.logDebug(`Suite created: ${title} (${suiteId})`);
+      }
+
+      this.suites.set(key, suiteId);
+      parentId = suiteId;
+    }
+
+    return parentId;
+  }
+
+  /**
+   * @param {TestResultType} result
+   * @returns {string[]}
+   * @private
+   */
+  private getSuiteTitles(result: TestResultType): string[] {
+    const titles = result.relations?.suite?.data.map(({ title }) => title) ?? [];
+
+    return this.rootSuite ? [this.rootSuite, ...titles] : titles;
+  }
+
+  /**
+   * @returns {Record<string, number>}
+   * @private
+   */
+  private readCache(): Record<string, number> {
+    if (!existsSync(this.cachePath)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(readFileSync(this.cachePath, 'utf8')) as Record<string, number>;
+    } catch (error) {
+      this.logger.logError(`Unable to read the case cache ${this.cachePath}:`, error);
+      return {};
+    }
+  }
+
+  /**
+   * The parallel workers share the cache, the cases linked by the others are kept
+   *
+   * @private
+   */
+  private writeCache(): void {
+    mkdirSync(path.dirname(this.cachePath), { recursive: true });
+
+    this.cases = { ...this.readCache(), ...this.cases };
+
+    const tmpPath = `${this.cachePath}.${process.pid}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(this.cases, null, 2));
+    renameSync(tmpPath, this.cachePath);
+  }
+}
@@ -0,0 +1 @@
+export { CaseSync, type CaseSyncOptionsType } from './case-sync';
@@ -0,0 +1,194 @@
+/**
+ * @enum {string}
+ */
+export enum CiProviderEnum {
+  github = 'github-actions',
+  gitlab = 'gitlab-ci',
+  jenkins = 'jenkins',
+  circleci = 'circleci',
+  azure = 'azure-pipelines',
+  buildkite = 'buildkite',
+  teamcity = 'teamcity',
+}
+
+export interface CiMetadataType {
+  provider: CiProviderEnum;
+  name: string;
+  buildUrl?: string | undefined;
+  jobName?: string | undefined;
+  branch?: string | undefined;
+  commit?: string | undefined;
+  pullRequest?: string | undefined;
+  author?: string | undefined;
+}
+
+type EnvType = Record<string, string | undefined>;
+
+interface CiDetectorType {
+  provider: CiProviderEnum;
+  name: string;
+  detect: (env: EnvType) => boolean;
+  read: (env: EnvType) => Omit<CiMetadataType, 'provider' | 'name'>;
+}
+
+/**
+ * @param {(string | undefined)[]} values
+ * @returns {string | undefined} the first non-empty value
+ */
+const first = (...values: (string | undefined)[]): string | undefined => values.find(Boolean);
+
+/**
+ * @param {string | undefined} ref
+ * @returns {string | undefined}
+ */
+const stripRef = (ref: string | undefined): string | undefined => ref?.replace(/^refs\/heads\//, '');
+
+const detectors: CiDetectorType[] = [
+  {
+    provider: CiProviderEnum.github,
+    name: 'GitHub Actions',
+    detect: (env) => env['GITHUB_ACTIONS'] === 'true',
+    read: (env) => ({
+      buildUrl: env['GITHUB_RUN_ID'] && `${env['GITHUB_SERVER_URL'] ?? 'https://github.com'}/${env['GITHUB_REPOSITORY'] ?? ''}/actions/runs/${env['GITHUB_RUN_ID']}`,
+      jobName: first(env['GITHUB_WORKFLOW'] && env['GITHUB_JOB'] && `${env['GITHUB_WORKFLOW']} / ${env['GITHUB_JOB']}`, env['GITHUB_WORKFLOW']),
+      branch: first(env['GITHUB_HEAD_REF'], env['GITHUB_REF_NAME']),
+      commit: env['GITHUB_SHA'],
+      pullRequest: /^refs\/pull\/(\d+)\//.exec(env['GITHUB_REF'] ?? '')?.[1],
+      author: first(env['GITHUB_TRIGGERING_ACTOR'], env['GITHUB_ACTOR']),
+    }),
+  },
+  {
+    provider: CiProviderEnum.gitlab,
+    name: 'GitLab CI',
+    detect: (env) => env['GITLAB_CI'] === 'true',
+    read: (env) => ({
+      buildUrl: first(env['CI_PIPELINE_URL'], env['CI_JOB_URL']),
+      jobName: env['CI_JOB_NAME'],
+      branch: first(env['CI_MERGE_REQUEST_SOURCE_BRANCH_NAME'], env['CI_COMMIT_REF_NAME']),
+      commit: env['CI_COMMIT_SHA'],
+      pullRequest: env['CI_MERGE_REQUEST_IID'],
+      author: first(env['GITLAB_USER_LOGIN'], env['GITLAB_USER_NAME']),
+    }),
+  },
+  {
+    provider: CiProviderEnum.jenkins,
+    name: 'Jenkins',
+    detect: (env) => Boolean(env['JENKINS_URL'] && env['BUILD_ID']),
+    read: (env) => ({
+      buildUrl: env['BUILD_URL'],
+      jobName: env['JOB_NAME'],
+      branch: first(env['CHANGE_BRANCH'], env['BRANCH_NAME'], env['GIT_BRANCH']?.replace(/^origin\//, '')),
+      commit: env['GIT_COMMIT'],
+      pullRequest: env['CHANGE_ID'],
+      author: first(env['CHANGE_AUTHOR'], env['BUILD_USER_ID']),
+    }),
+  },
+  {
+    provider: CiProviderEnum.circleci,
+    name: 'CircleCI',
+    detect: (env) => env['CIRCLECI'] === 'true',
+    read: (env) => ({
+      buildUrl: env['CIRCLE_BUILD_URL'],
+      jobName: env['CIRCLE_JOB'],
+      branch: env['CIRCLE_BRANCH'],
+      commit: env['CIRCLE_SHA1'],
+      pullRequest: first(env['CIRCLE_PR_NUMBER'], /\/(\d+)$/.exec(env['CIRCLE_PULL_REQUEST'] ?? '')?.[1]),
+      author: env['CIRCLE_USERNAME'],
+    }),
+  },
+  {
+    provider: CiProviderEnum.azure,
+    name: 'Azure Pipelines',
+    detect: (env) => env['TF_BUILD']?.toLowerCase() === 'true',
+    read: (env) => ({
+      buildUrl: env['BUILD_BUILDID'] && `${env['SYSTEM_TEAMFOUNDATIONCOLLECTIONURI'] ?? ''}${env['SYSTEM_TEAMPROJECT'] ?? ''}/_build/results?buildId=${env['BUILD_BUILDID']}`,
+      jobName: first(env['SYSTEM_JOBDISPLAYNAME'], env['BUILD_DEFINITIONNAME']),
+      branch: stripRef(first(env['SYSTEM_PULLREQUEST_SOURCEBRANCH'], env['BUILD_SOURCEBRANCH'])),
+      commit: env['BUILD_SOURCEVERSION'],
+      pullRequest: first(env['SYSTEM_PULLREQUEST_PULLREQUESTNUMBER'], env['SYSTEM_PULLREQUEST_PULLREQUESTID']),
+      author: env['BUILD_REQUESTEDFOR'],
+    }),
+  },
+  {
+    provider: CiProviderEnum.buildkite,
+    name: 'Buildkite',
+    detect: (env) => env['BUILDKITE'] === 'true',
+    read: (env) => ({
+      buildUrl: env['BUILDKITE_BUILD_URL'],
+      jobName: first(env['BUILDKITE_LABEL'], env['BUILDKITE_PIPELINE_SLUG']),
+      branch: env['BUILDKITE_BRANCH'],
+      commit: env['BUILDKITE_COMMIT'],
+      // the variable is `false` for the builds of branches
+      pullRequest: env['BUILDKITE_PULL_REQUEST'] === 'false' ? undefined : env['BUILDKITE_PULL_REQUEST'],
+      author: first(env['BUILDKITE_BUILD_CREATOR'], env['BUILDKITE_BUILD_AUTHOR']),
+    }),
+  },
+  {
+    provider: CiProviderEnum.teamcity,
+    name: 'TeamCity',
+    detect: (env) => env['TEAMCITY_VERSION'] !== undefined,
+    read: (env) => ({
+      // TeamCity doesn't expose the build URL and the branch to the build steps by default
+      buildUrl: env['BUILD_URL'],
+      jobName: first(
+        env['TEAMCITY_PROJECT_NAME'] && env['TEAMCITY_BUILDCONF_NAME'] && `${env['TEAMCITY_PROJECT_NAME']} / ${env['TEAMCITY_BUILDCONF_NAME']}`,
+        env['TEAMCITY_BUILDCONF_NAME'],
+      ),
+      branch: stripRef(env['BUILD_BRANCH']),
+      commit: env['BUILD_VCS_NUMBER'],
+      pullRequest: undefined,
+      author: env['BUILD_TRIGGEREDBY_USERNAME'],
+    }),
+  },
+];
+
+/**
+ * Detects the CI system the tests run in by its environment variables
+ *
+ * @param {EnvType} env
+ * @returns {CiMetadataType | undefined} the build metadata or `undefined` outside CI
+ */
+export const detectCi = (env: EnvType = process.env): CiMetadataType | undefined => {
+  const detector = detectors.find(({ detect }) => detect(env));
+
+  if (!detector) {
+    return undefined;
+  }
+
+  const metadata: CiMetadataType = { provider: detector.provider, name: detector.name };
+
+  // the empty variables are left out
+  for (const [key, value] of Object.entries(detector.read(env))) {
+    if (value) {
+      metadata[key as keyof Omit<CiMetadataType, 'provider'>] = value;
+    }
+  }
+
+  return metadata;
+};
+
+/**
+ * @param {CiMetadataType} ci
+ * @returns {string} the metadata as lines of text, e.g. for the run description
+ */
+export const formatCiMetadata = (ci: CiMetadataType): string => {
+  const lines = [`${ci.name} build${ci.buildUrl ? `: ${ci.buildUrl}` : ''}`];
+
+  if (ci.jobName) {
+    lines.push(`Job: ${ci.jobName}`);
+  }
+
+  if (ci.branch || ci.commit) {
+    lines.push(`Branch: ${[ci.branch, ci.commit && `commit ${ci.commit}`].filter(Boolean).join(', ')}`);
+  }
+
+  if (ci.pullRequest) {
+    lines.push(`Pull request: #${ci.pullRequest}`);
+  }
+
+  if (ci.author) {
+    lines.push(`Triggered by: ${ci.author}`);
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1 @@
+export { detectCi, formatCiMetadata, CiProviderEnum, type CiMetadataType } from './ci-metadata';
@@ -0,0 +1,53 @@
+import envSchema from 'env-schema';
+import { QaseApi, QaseApiInterface } from 'qaseio';
+
+import { ConfigLoader, ConfigType } from '../config';
+import { EnvApiEnum, envToConfig, envValidationSchema } from '../env';
+import { composeOptions } from '../options';
+import { CustomBoundaryFormData } from '../utils/custom-boundary';
+import { QaseError } from '../utils/qase-error';
+
+/**
+ * Options from the config file overridden by the environment variables,
+ * the same way the reporters resolve them
+ *
+ * @returns {ConfigType}
+ */
+export const loadOptions = (): ConfigType => {
+  const config = new ConfigLoader().load();
+  const env = envToConfig(envSchema({ schema: envValidationSchema }));
+
+  return composeOptions(config, env);
+};
+
+/**
+ * @param {ConfigType} options
+ * @returns {QaseApiInterface}
+ */
+export const createApi = (options: ConfigType): QaseApiInterface => {
+  const { token, ...api } = options.testops?.api ?? {};
+
+  if (!token) {
+    throw new QaseError(
+      `Either "testops.api.token" parameter or "${EnvApiEnum.token}" environment variable is required`,
+    );
+  }
+
+  return new QaseApi({
+    token,
+    host: api.host,
+    retries: api.retries,
+    retryDelay: api.retryDelay,
+  }, CustomBoundaryFormData);
+};
+
+/**
+ * @param {string[]} args
+ * @param {string} name
+ * @returns {string | undefined}
+ */
+export const getArgValue = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+
+  return index === -1 ? undefined : args[index + 1];
+};
@@ -0,0 +1,33 @@
+import * as path from 'path';
+
+import { getArgValue, loadOptions } from '../cli-options';
+
+import { ReportImporter } from '../../importer';
+import { QaseReporter } from '../../qase';
+import { Logger } from '../../utils/logger';
+import { DriverEnum } from '../../writer';
+
+export const importUsage = 'qase import [--path <report directory>]';
+
+/**
+ * @param {string[]} args
+ * @returns {Promise<void>}
+ */
+export const importCommand = async (args: string[]): Promise<void> => {
+  const options = loadOptions();
+  const logger = new Logger({ debug: options.debug });
+  const reportPath = getArgValue(args, 'path')
+    ?? options.report?.connections?.[DriverEnum.local]?.path
+    ?? path.join('build', 'qase-report');
+
+  const reporter = QaseReporter.createTestOpsReporter({
+    ...options,
+    frameworkPackage: 'qase-javascript-commons',
+    frameworkName: 'import',
+    reporterName: 'qase-javascript-commons',
+  }, logger);
+
+  const count = await new ReportImporter(logger, reporter).import(reportPath);
+
+  logger.log(`Imported results: ${count}`);
+};
@@ -0,0 +1,27 @@
+import { getArgValue, loadOptions } from '../cli-options';
+
+import { ReportMerger } from '../../merger';
+import { Logger } from '../../utils/logger';
+import { DriverEnum } from '../../writer';
+
+export const mergeUsage = 'qase merge [--output <report directory>] <report directory>...';
+
+/**
+ * @param {string[]} args
+ * @returns {Promise<void>}
+ */
+export const mergeCommand = async (args: string[]): Promise<void> => {
+  const options = loadOptions();
+  const logger = new Logger({ debug: options.debug });
+  const output = getArgValue(args, 'output');
+  const sourcePaths = args.filter((arg, index) => arg !== '--output' && args[index - 1] !== '--output');
+
+  const merger = new ReportMerger(logger, {
+    ...options.report?.connections?.[DriverEnum.local],
+    ...(output ? { path: output } : {}),
+  });
+
+  const report = await merger.merge(sourcePaths);
+
+  logger.log(`Merged results: ${report.stats.total}`);
+};
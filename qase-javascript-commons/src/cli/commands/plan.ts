@@ -0,0 +1,43 @@
+import { createApi, getArgValue, loadOptions } from '../cli-options';
+
+import { EnvPlanEnum, EnvTestOpsEnum } from '../../env';
+import { TestPlan } from '../../plan';
+import { QaseError } from '../../utils/qase-error';
+
+export const planUsage = 'qase plan <cases|grep> [--id <plan ID>]';
+
+/**
+ * Prints the case IDs of the plan or a `grep` pattern matching its tests
+ *
+ * @param {string[]} args
+ * @returns {Promise<void>}
+ */
+export const planCommand = async (args: string[]): Promise<void> => {
+  const [action] = args;
+
+  if (action !== 'cases' && action !== 'grep') {
+    throw new Error(`Unknown action "${String(action)}". Usage: ${planUsage}`);
+  }
+
+  const options = loadOptions();
+  const idArg = getArgValue(args, 'id');
+  const planId = idArg === undefined ? options.testops?.plan?.id : Number(idArg);
+  const project = options.testops?.project;
+
+  if (planId === undefined || isNaN(planId)) {
+    throw new QaseError(
+      `Either "--id" argument, "testops.plan.id" parameter or "${EnvPlanEnum.id}" environment variable is required`,
+    );
+  }
+
+  if (!project) {
+    throw new QaseError(
+      `Either "testops.project" parameter or "${EnvTestOpsEnum.project}" environment variable is required`,
+    );
+  }
+
+  const caseIds = await new TestPlan(createApi(options), project).getCaseIds(planId);
+
+  // the output is meant to be used in shell substitutions, so no logger decorations
+  console.log(action === 'cases' ? caseIds.join(',') : TestPlan.getGrepPattern(caseIds));
+};
@@ -0,0 +1,65 @@
+import { createApi, getArgValue, loadOptions } from '../cli-options';
+
+import { CaseSync } from '../../cases';
+import { EnvRunEnum, EnvTestOpsEnum } from '../../env';
+import { TestPlan } from '../../plan';
+import { FailedTests } from '../../rerun';
+import { Logger } from '../../utils/logger';
+import { QaseError } from '../../utils/qase-error';
+
+export const rerunUsage = 'qase rerun <cases|grep|signatures> [--run <run ID>]';
+
+/**
+ * Prints the case IDs which failed in the run, a `grep` pattern matching their tests
+ * or the signatures of the tests linked to them by the case sync
+ *
+ * @param {string[]} args
+ * @returns {Promise<void>}
+ */
+export const rerunCommand = async (args: string[]): Promise<void> => {
+  const [action] = args;
+
+  if (action !== 'cases' && action !== 'grep' && action !== 'signatures') {
+    throw new Error(`Unknown action "${String(action)}". Usage: ${rerunUsage}`);
+  }
+
+  const options = loadOptions();
+  const runArg = getArgValue(args, 'run');
+  const runId = runArg === undefined ? options.testops?.run?.rerunId : Number(runArg);
+  const project = options.testops?.project;
+
+  if (runId === undefined || isNaN(runId)) {
+    throw new QaseError(
+      `Either "--run" argument, "testops.run.rerunId" parameter or "${EnvRunEnum.rerunId}" environment variable is required`,
+    );
+  }
+
+  if (!project) {
+    throw new QaseError(
+      `Either "testops.project" parameter or "${EnvTestOpsEnum.project}" environment variable is required`,
+    );
+  }
+
+  const api = createApi(options);
+  const caseIds = await new FailedTests(api, project).getCaseIds(runId);
+
+  // the output is meant to be used in shell substitutions, so no logger decorations
+  switch (action) {
+    case 'cases':
+      console.log(caseIds.join(','));
+      break;
+
+    case 'grep':
+      console.log(TestPlan.getGrepPattern(caseIds));
+      break;
+
+    case 'signatures': {
+      const caseSync = new CaseSync(new Logger({ debug: options.debug }), api, project, {
+        cachePath: options.testops?.caseSync?.cachePath,
+      });
+
+      console.log(caseSync.getSignatures(caseIds).join('\n'));
+      break;
+    }
+  }
+};
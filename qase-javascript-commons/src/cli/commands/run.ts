@@ -0,0 +1,53 @@
+import chalk from 'chalk';
+
+import { createApi, getArgValue, loadOptions } from '../cli-options';
+
+import { EnvRunEnum, EnvTestOpsEnum } from '../../env';
+import { SharedRun } from '../../shared-run';
+import { Logger } from '../../utils/logger';
+import { QaseError } from '../../utils/qase-error';
+
+export const runUsage = 'qase run complete [--key <run key>]';
+
+/**
+ * Completes the open run with the run key, e.g. in the last job of a CI pipeline
+ * if a shard has failed to report
+ *
+ * @param {string[]} args
+ * @returns {Promise<void>}
+ */
+export const runCommand = async (args: string[]): Promise<void> => {
+  const [action] = args;
+
+  if (action !== 'complete') {
+    throw new Error(`Unknown action "${String(action)}". Usage: ${runUsage}`);
+  }
+
+  const options = loadOptions();
+  const key = getArgValue(args, 'key') ?? options.testops?.run?.key;
+  const project = options.testops?.project;
+
+  if (!key) {
+    throw new QaseError(
+      `Either "--key" argument, "testops.run.key" parameter or "${EnvRunEnum.key}" environment variable is required`,
+    );
+  }
+
+  if (!project) {
+    throw new QaseError(
+      `Either "testops.project" parameter or "${EnvTestOpsEnum.project}" environment variable is required`,
+    );
+  }
+
+  const logger = new Logger({ debug: options.debug });
+  const sharedRun = new SharedRun(logger, createApi(options), project, { key });
+  const runId = await sharedRun.findRunId();
+
+  if (runId === undefined) {
+    logger.log(chalk`{yellow No open run with the key "${key}"}`);
+    return;
+  }
+
+  await sharedRun.complete(runId);
+  logger.log(chalk`{green Run ${runId} completed}`);
+};
@@ -0,0 +1,31 @@
+import * as path from 'path';
+
+import { createApi, getArgValue, loadOptions } from '../cli-options';
+
+import { SpoolReplayer } from '../../spool';
+import { Logger } from '../../utils/logger';
+
+export const spoolUsage = 'qase spool replay [--path <spool directory>]';
+
+/**
+ * @param {string[]} args
+ * @returns {Promise<void>}
+ */
+export const spoolCommand = async (args: string[]): Promise<void> => {
+  const [action] = args;
+
+  if (action !== 'replay') {
+    throw new Error(`Unknown action "${String(action)}". Usage: ${spoolUsage}`);
+  }
+
+  const options = loadOptions();
+  const logger = new Logger({ debug: options.debug });
+  const spoolPath = getArgValue(args, 'path')
+    ?? options.testops?.spool?.path
+    ?? path.join('build', 'qase-spool');
+
+  const replayer = new SpoolReplayer(logger, createApi(options));
+  const count = await replayer.replay(spoolPath);
+
+  logger.log(`Replayed sessions: ${count}`);
+};
@@ -0,0 +1,40 @@
+#!/usr/bin/env node
+import { importCommand, importUsage } from './commands/import';
+import { mergeCommand, mergeUsage } from './commands/merge';
+import { planCommand, planUsage } from './commands/plan';
+import { rerunCommand, rerunUsage } from './commands/rerun';
+import { runCommand, runUsage } from './commands/run';
+import { spoolCommand, spoolUsage } from './commands/spool';
+
+import { Logger } from '../utils/logger';
+
+type CommandType = (args: string[]) => Promise<void>;
+
+const commands: Record<string, CommandType> = {
+  import: importCommand,
+  merge: mergeCommand,
+  plan: planCommand,
+  rerun: rerunCommand,
+  run: runCommand,
+  spool: spoolCommand,
+};
+
+const usage = [importUsage, mergeUsage, planUsage, rerunUsage, runUsage, spoolUsage].join('\n');
+
+const run = async (): Promise<void> => {
+  const [name, ...args] = process.argv.slice(2);
+  const command = name === undefined ? undefined : commands[name];
+
+  if (command === undefined) {
+    console.log(`Usage:\n${usage}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  await command(args);
+};
+
+run().catch((error: unknown) => {
+  new Logger({}).logError('Command failed:', error);
+  process.exitCode = 1;
+});
@@ -1,6 +1,6 @@
 import { JSONSchemaType } from 'ajv';
+import { TestCaseexternalIssuesTypeEnum } from 'qaseio';
 
-import { ModeEnum } from '../options';
 import { DriverEnum, FormatEnum } from '../writer';
 import { ConfigType } from './config-type';
 
@@ -13,12 +13,10 @@ export const configValidationSchema: JSONSchemaType<ConfigType> = {
   properties: {
     mode: {
       type: 'string',
-      enum: [ModeEnum.report, ModeEnum.testops, ModeEnum.off],
       nullable: true,
     },
     fallback: {
       type: 'string',
-      enum: [ModeEnum.report, ModeEnum.testops, ModeEnum.off],
       nullable: true,
     },
     debug: {
@@ -112,6 +110,57 @@ export const configValidationSchema: JSONSchemaType<ConfigType> = {
               type: 'boolean',
               nullable: true,
             },
+            rerunId: {
+              type: 'number',
+              nullable: true,
+            },
+            milestone: {
+              type: 'string',
+              nullable: true,
+            },
+            configurations: {
+              type: 'object',
+              nullable: true,
+              additionalProperties: false,
+              patternProperties: {
+                '^.*$': {
+                  type: 'string',
+                },
+              },
+            },
+            provision: {
+              type: 'boolean',
+              nullable: true,
+            },
+            tags: {
+              type: 'array',
+              items: {
+                type: 'string',
+              },
+              nullable: true,
+            },
+            customFields: {
+              type: 'object',
+              nullable: true,
+              additionalProperties: false,
+              patternProperties: {
+                '^.*$': {
+                  type: 'string',
+                },
+              },
+            },
+            key: {
+              type: 'string',
+              nullable: true,
+            },
+            shards: {
+              type: 'number',
+              nullable: true,
+            },
+            shard: {
+              type: 'string',
+              nullable: true,
+            },
           },
         },
 
@@ -136,6 +185,135 @@ export const configValidationSchema: JSONSchemaType<ConfigType> = {
               type: 'number',
               nullable: true,
             },
+            interval: {
+              type: 'number',
+              nullable: true,
+            },
+          },
+        },
+
+        spool: {
+          type: 'object',
+          nullable: true,
+
+          properties: {
+            enabled: {
+              type: 'boolean',
+              nullable: true,
+            },
+            path: {
+              type: 'string',
+              nullable: true,
+            },
+          },
+        },
+
+        attachments: {
+          type: 'object',
+          nullable: true,
+
+          properties: {
+            concurrency: {
+              type: 'number',
+              nullable: true,
+            },
+            maxFileSize: {
+              type: 'number',
+              nullable: true,
+            },
+            maxRunSize: {
+              type: 'number',
+              nullable: true,
+            },
+            compress: {
+              type: 'boolean',
+              nullable: true,
+            },
+            retries: {
+              type: 'number',
+              nullable: true,
+            },
+          },
+        },
+
+        flaky: {
+          type: 'object',
+          nullable: true,
+
+          properties: {
+            enabled: {
+              type: 'boolean',
+              nullable: true,
+            },
+            days: {
+              type: 'number',
+              nullable: true,
+            },
+            threshold: {
+              type: 'number',
+              nullable: true,
+            },
+          },
+        },
+
+        caseSync: {
+          type: 'object',
+          nullable: true,
+
+          properties: {
+            enabled: {
+              type: 'boolean',
+              nullable: true,
+            },
+            cachePath: {
+              type: 'string',
+              nullable: true,
+            },
+          },
+        },
+
+        defects: {
+          type: 'object',
+          nullable: true,
+
+          properties: {
+            enabled: {
+              type: 'boolean',
+              nullable: true,
+            },
+            resolve: {
+              type: 'boolean',
+              nullable: true,
+            },
+            severity: {
+              type: 'number',
+              nullable: true,
+            },
+          },
+        },
+
+        issues: {
+          type: 'object',
+          nullable: true,
+
+          properties: {
+            type: {
+              type: 'string',
+              enum: [TestCaseexternalIssuesTypeEnum.CLOUD, TestCaseexternalIssuesTypeEnum.SERVER],
+              nullable: true,
+            },
+          },
+        },
+
+        quarantine: {
+          type: 'object',
+          nullable: true,
+
+          properties: {
+            field: {
+              type: 'number',
+              nullable: true,
+            },
           },
         },
 
@@ -151,6 +329,71 @@ export const configValidationSchema: JSONSchemaType<ConfigType> = {
       },
     },
 
+    quarantine: {
+      type: 'object',
+      nullable: true,
+
+      properties: {
+        ids: {
+          type: 'array',
+          items: {
+            type: 'number',
+          },
+          nullable: true,
+        },
+        signatures: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          nullable: true,
+        },
+        path: {
+          type: 'string',
+          nullable: true,
+        },
+      },
+    },
+
+    multi: {
+      type: 'object',
+      nullable: true,
+
+      properties: {
+        modes: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          nullable: true,
+        },
+      },
+    },
+
+    shutdown: {
+      type: 'object',
+      nullable: true,
+
+      properties: {
+        enabled: {
+          type: 'boolean',
+          nullable: true,
+        },
+        timeout: {
+          type: 'number',
+          nullable: true,
+        },
+        completeRun: {
+          type: 'boolean',
+          nullable: true,
+        },
+        report: {
+          type: 'boolean',
+          nullable: true,
+        },
+      },
+    },
+
     report: {
       type: 'object',
       nullable: true,
@@ -182,6 +425,16 @@ export const configValidationSchema: JSONSchemaType<ConfigType> = {
                   enum: [FormatEnum.json, FormatEnum.jsonp],
                   nullable: true,
                 },
+
+                junit: {
+                  type: 'boolean',
+                  nullable: true,
+                },
+
+                html: {
+                  type: 'boolean',
+                  nullable: true,
+                },
               },
             },
           },
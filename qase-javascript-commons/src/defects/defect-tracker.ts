@@ -0,0 +1,370 @@
+import { createHash } from 'crypto';
+
+import stripAnsi from 'strip-ansi';
+import { Defect, QaseApiInterface } from 'qaseio';
+
+import { TestResultType, TestStatusEnum } from '../models';
+import { LoggerInterface } from '../utils/logger';
+
+export interface DefectTrackerOptionsType {
+  resolve?: boolean | undefined;
+  severity?: number | undefined;
+}
+
+interface TrackedDefectType {
+  id: number;
+  tags: Set<string>;
+}
+
+const defectsPerPage = 100;
+const stackFrames = 6;
+const maxTitleLength = 255;
+const maxTextLength = 4000;
+const fingerprintTagPrefix = 'qase-fp-';
+const testTagPrefix = 'qase-test-';
+// the tests after the limit are not added to the tags of a defect
+const maxTestTags = 20;
+const defaultSeverity = 4; // normal
+
+/**
+ * Creates a Qase defect per distinct failure and reuses it while the failure repeats.
+ * Failures are told apart by a fingerprint of the normalized stacktrace or message,
+ * kept in the defect tags together with the tests which failed with it.
+ *
+ * @class DefectTracker
+ */
+export class DefectTracker {
+  private readonly resolve: boolean;
+  private readonly severity: number;
+
+  /**
+   * Open defects keyed by fingerprint, loaded on the first failure
+   * @type {Map<string, TrackedDefectType> | undefined}
+   * @private
+   */
+  private defects: Map<string, TrackedDefectType> | undefined;
+
+  /**
+   * Tests which failed in this run, keyed as in the defect tags
+   * @type {Set<string>}
+   * @private
+   */
+  private readonly failedTests = new Set<string>();
+
+  /**
+   * @type {Set<string>}
+   * @private
+   */
+  private readonly passedTests = new Set<string>();
+
+  /**
+   * @param {LoggerInterface} logger
+   * @param {QaseApiInterface} api
+   * @param {string} projectCode
+   * @param {DefectTrackerOptionsType} options
+   */
+  constructor(
+    private readonly logger: LoggerInterface,
+    private readonly api: QaseApiInterface,
+    private readonly projectCode: string,
+    options: DefectTrackerOptionsType = {},
+  ) {
+    this.resolve = options.resolve ?? false;
+    this.severity = options.severity ?? defaultSeverity;
+  }
+
+  /**
+   * Line and column numbers, IDs, addresses and directories differ between the runs,
+   * so they are left out of the stack frames and the message, as well as the frames of the test runner deep in the stack.
+   *
+   * @param {TestResultType} result
+   * @returns {string}
+   */
+  public static getFingerprint(result: TestResultType): string {
+    const lines = result.execution.stacktrace
+      ? result.execution.stacktrace.split('\n').slice(0, stackFrames)
+      : (result.message ?? '').split('\n');
+
+    const normalized = lines
+      .map((line) => stripAnsi(line))
+      .map((line) => DefectTracker.normalize(line))
+      .join('\n')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    return DefectTracker.hash(normalized);
+  }
+
+  /**
+   * Creates or updates the defects of the failed results
+   *
+   * @param {TestResultType[]} results
+   * @param {(result: TestResultType) => string} getLink link to the result in Qase
+   * @returns {Promise<void>}
+   */
+  public async track(results: TestResultType[], getLink: (result: TestResultType) => string): Promise<void> {
+    const failures = new Map<string, TestResultType[]>();
+
+    for (const result of results) {
+      const testKey = DefectTracker.getTestKey(result);
+
+      if (result.execution.status === TestStatusEnum.passed) {
+        this.passedTests.add(testKey);
+        continue;
+      }
+
+      // muted failures are known and don't need a defect
+      if (result.muted || (result.execution.status !== TestStatusEnum.failed
+        && result.execution.status !== TestStatusEnum.invalid)) {
+        continue;
+      }
+
+      this.failedTests.add(testKey);
+
+      const fingerprint = DefectTracker.getFingerprint(result);
+      failures.set(fingerprint, [...failures.get(fingerprint) ?? [], result]);
+    }
+
+    if (failures.size === 0) {
+      return;
+    }
+
+    const defects = await this.getDefects();
+
+    for (const [fingerprint, failed] of failures) {
+      const defect = defects.get(fingerprint);
+
+      if (defect) {
+        await this.updateDefect(defect, failed);
+      } else {
+        defects.set(fingerprint, await this.createDefect(fingerprint, failed, getLink));
+      }
+    }
+  }
+
+  /**
+   * Resolves the open defects whose tests all passed in this run, the defects with the capped test tags are left open
+   *
+   * @returns {Promise<number[]>} IDs of the resolved defects
+   */
+  public async resolvePassed(): Promise<number[]> {
+    if (!this.resolve || this.passedTests.size === 0) {
+      return [];
+    }
+
+    const resolved: number[] = [];
+
+    for (const [fingerprint, defect] of await this.getDefects()) {
+      const tests = [...defect.tags]
+        .filter((tag) => tag.startsWith(testTagPrefix))
+        .map((tag) => tag.slice(testTagPrefix.length));
+
+      // the tests over the cap are not tagged, they may still fail
+      if (tests.length === 0 || tests.length >= maxTestTags) {
+        continue;
+      }
+
+      if (!tests.every((test) => this.passedTests.has(test) && !this.failedTests.has(test))) {
+        continue;
+      }
+
+      await this.api.defects.resolveDefect(this.projectCode, defect.id);
+      this.defects?.delete(fingerprint);
+      resolved.push(defect.id);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * @param {string} fingerprint
+   * @param {TestResultType[]} results
+   * @param {(result: TestResultType) => string} getLink
+   * @returns {Promise<TrackedDefectType>}
+   * @private
+   */
+  private async createDefect(
+    fingerprint: string,
+    results: TestResultType[],
+    getLink: (result: TestResultType) => string,
+  ): Promise<TrackedDefectType> {
+    const [first] = results;
+    const summary = first?.message?.split('\n').find((line) => line.trim() !== '') ?? 'Test failed';
+    const tags = new Set([`${fingerprintTagPrefix}${fingerprint}`]);
+
+    DefectTracker.addTestTags(tags, results);
+
+    const actualResult = this.truncate([
+      stripAnsi(first?.message ?? ''),
+      first?.execution.stacktrace ? `\`\`\`\n${stripAnsi(first.execution.stacktrace)}\n\`\`\`` : '',
+      this.formatFailures(results, getLink),
+    ].filter(Boolean).join('\n\n'));
+
+    const title = stripAnsi(`${first?.title ?? ''}: ${summary}`);
+
+    const { data } = await this.api.defects.createDefect(this.projectCode, {
+      title: title.length <= maxTitleLength ? title : `${title.slice(0, maxTitleLength - 3)}...`,
+      actual_result: actualResult,
+      severity: this.severity,
+      tags: [...tags],
+    });
+
+    if (!data.result?.id) {
+      throw new Error('Cannot create defect.');
+    }
+
+    this.logger.logDebug(`Defect ${data.result.id} created for fingerprint ${fingerprint}`);
+
+    return { id: data.result.id, tags };
+  }
+
+  /**
+   * Adds the tests of the failures to the tags of the defect, the defect is left as is
+   * if the tests are already there
+   *
+   * @param {TrackedDefectType} defect
+   * @param {TestResultType[]} results
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async updateDefect(defect: TrackedDefectType, results: TestResultType[]): Promise<void> {
+    const added = DefectTracker.addTestTags(defect.tags, results);
+
+    if (added === 0) {
+      return;
+    }
+
+    await this.api.defects.updateDefect(this.projectCode, defect.id, {
+      tags: [...defect.tags],
+    });
+
+    this.logger.logDebug(`Defect ${defect.id} updated with ${added} failed tests`);
+  }
+
+  /**
+   * @returns {Promise<Map<string, TrackedDefectType>>}
+   * @private
+   */
+  private async getDefects(): Promise<Map<string, TrackedDefectType>> {
+    if (this.defects) {
+      return this.defects;
+    }
+
+    const defects = new Map<string, TrackedDefectType>();
+
+    for (let offset = 0; ; offset += defectsPerPage) {
+      const { data } = await this.api.defects.getDefects(this.projectCode, 'open', defectsPerPage, offset);
+      const entities = data.result?.entities ?? [];
+
+      for (const entity of entities) {
+        this.addDefect(defects, entity);
+      }
+
+      if (entities.length < defectsPerPage) {
+        break;
+      }
+    }
+
+    this.logger.logDebug(`Open defects with fingerprints: ${defects.size}`);
+    this.defects = defects;
+
+    return defects;
+  }
+
+  /**
+   * @param {Map<string, TrackedDefectType>} defects
+   * @param {Defect} entity
+   * @private
+   */
+  private addDefect(defects: Map<string, TrackedDefectType>, entity: Defect): void {
+    const tags = new Set((entity.tags ?? [])
+      .map(({ title }) => title)
+      .filter((title): title is string => title !== undefined));
+    const fingerprintTag = [...tags].find((tag) => tag.startsWith(fingerprintTagPrefix));
+
+    if (entity.id === undefined || fingerprintTag === undefined) {
+      return;
+    }
+
+    defects.set(fingerprintTag.slice(fingerprintTagPrefix.length), { id: entity.id, tags });
+  }
+
+  /**
+   * @param {TestResultType[]} results
+   * @param {(result: TestResultType) => string} getLink
+   * @returns {string}
+   * @private
+   */
+  private formatFailures(results: TestResultType[], getLink: (result: TestResultType) => string): string {
+    return results.map((result) => `Failed: ${result.title} ${getLink(result)}`).join('\n');
+  }
+
+  /**
+   * Keeps the end of the text, where the links to the failures are
+   *
+   * @param {string} text
+   * @returns {string}
+   * @private
+   */
+  private truncate(text: string): string {
+    return text.length <= maxTextLength ? text : `...${text.slice(text.length - maxTextLength + 3)}`;
+  }
+
+  /**
+   * @param {string} line
+   * @returns {string}
+   * @private
+   */
+  private static normalize(line: string): string {
+    return line
+      .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>')
+      .replace(/0x[0-9a-f]+/gi, '<hex>')
+      .replace(/\d+/g, '<n>')
+      .replace(/(?:[a-z]:)?[\\/](?:[^\s\\/:()'"]+[\\/])+/gi, '');
+  }
+
+  /**
+   * Adds the tests of the results to the tags, up to the limit of the test tags
+   *
+   * @param {Set<string>} tags
+   * @param {TestResultType[]} results
+   * @returns {number} the number of the added tags
+   * @private
+   */
+  private static addTestTags(tags: Set<string>, results: TestResultType[]): number {
+    let count = [...tags].filter((tag) => tag.startsWith(testTagPrefix)).length;
+    let added = 0;
+
+    for (const result of results) {
+      const tag = `${testTagPrefix}${DefectTracker.getTestKey(result)}`;
+
+      if (count >= maxTestTags || tags.has(tag)) {
+        continue;
+      }
+
+      tags.add(tag);
+      count++;
+      added++;
+    }
+
+    return added;
+  }
+
+  /**
+   * @param {TestResultType} result
+   * @returns {string}
+   * @private
+   */
+  private static getTestKey(result: TestResultType): string {
+    return DefectTracker.hash(result.signature || result.title);
+  }
+
+  /**
+   * @param {string} value
+   * @returns {string}
+   * @private
+   */
+  private static hash(value: string): string {
+    return createHash('sha1').update(value).digest('hex').slice(0, 12);
+  }
+}
@@ -0,0 +1 @@
+export { DefectTracker, type DefectTrackerOptionsType } from './defect-tracker';
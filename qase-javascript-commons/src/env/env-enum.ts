@@ -35,7 +35,16 @@ export enum EnvRunEnum {
   id = 'QASE_TESTOPS_RUN_ID',
   title = 'QASE_TESTOPS_RUN_TITLE',
   description = 'QASE_TESTOPS_RUN_DESCRIPTION',
-  complete = 'QASE_TESTOPS_RUN_COMPLETE'
+  complete = 'QASE_TESTOPS_RUN_COMPLETE',
+  rerunId = 'QASE_TESTOPS_RUN_RERUN_ID',
+  milestone = 'QASE_TESTOPS_RUN_MILESTONE',
+  configurations = 'QASE_TESTOPS_RUN_CONFIGURATIONS',
+  provision = 'QASE_TESTOPS_RUN_PROVISION',
+  tags = 'QASE_TESTOPS_RUN_TAGS',
+  customFields = 'QASE_TESTOPS_RUN_CUSTOM_FIELDS',
+  key = 'QASE_TESTOPS_RUN_KEY',
+  shards = 'QASE_TESTOPS_RUN_SHARDS',
+  shard = 'QASE_TESTOPS_RUN_SHARD',
 }
 
 /**
@@ -50,6 +59,91 @@ export enum EnvPlanEnum {
  */
 export enum EnvBatchEnum {
   size = 'QASE_TESTOPS_BATCH_SIZE',
+  interval = 'QASE_TESTOPS_BATCH_INTERVAL',
+}
+
+/**
+ * @enum {string}
+ */
+export enum EnvSpoolEnum {
+  enabled = 'QASE_TESTOPS_SPOOL_ENABLED',
+  path = 'QASE_TESTOPS_SPOOL_PATH',
+}
+
+/**
+ * @enum {string}
+ */
+export enum EnvAttachmentsEnum {
+  concurrency = 'QASE_TESTOPS_ATTACHMENTS_CONCURRENCY',
+  maxFileSize = 'QASE_TESTOPS_ATTACHMENTS_MAX_FILE_SIZE',
+  maxRunSize = 'QASE_TESTOPS_ATTACHMENTS_MAX_RUN_SIZE',
+  compress = 'QASE_TESTOPS_ATTACHMENTS_COMPRESS',
+  retries = 'QASE_TESTOPS_ATTACHMENTS_RETRIES',
+}
+
+/**
+ * @enum {string}
+ */
+export enum EnvFlakyEnum {
+  enabled = 'QASE_TESTOPS_FLAKY_ENABLED',
+  days = 'QASE_TESTOPS_FLAKY_DAYS',
+  threshold = 'QASE_TESTOPS_FLAKY_THRESHOLD',
+}
+
+/**
+ * @enum {string}
+ */
+export enum EnvCaseSyncEnum {
+  enabled = 'QASE_TESTOPS_CASE_SYNC_ENABLED',
+  cachePath = 'QASE_TESTOPS_CASE_SYNC_CACHE_PATH',
+}
+
+/**
+ * @enum {string}
+ */
+export enum EnvDefectsEnum {
+  enabled = 'QASE_TESTOPS_DEFECTS_ENABLED',
+  resolve = 'QASE_TESTOPS_DEFECTS_RESOLVE',
+  severity = 'QASE_TESTOPS_DEFECTS_SEVERITY',
+}
+
+/**
+ * @enum {string}
+ */
+export enum EnvIssuesEnum {
+  type = 'QASE_TESTOPS_ISSUES_TYPE',
+}
+
+/**
+ * @enum {string}
+ */
+export enum EnvTestOpsQuarantineEnum {
+  field = 'QASE_TESTOPS_QUARANTINE_FIELD',
+}
+
+/**
+ * @enum {string}
+ */
+export enum EnvQuarantineEnum {
+  ids = 'QASE_QUARANTINE_IDS',
+  path = 'QASE_QUARANTINE_PATH',
+}
+
+/**
+ * @enum {string}
+ */
+export enum EnvMultiEnum {
+  modes = 'QASE_MULTI_MODES',
+}
+
+/**
+ * @enum {string}
+ */
+export enum EnvShutdownEnum {
+  enabled = 'QASE_SHUTDOWN_ENABLED',
+  timeout = 'QASE_SHUTDOWN_TIMEOUT',
+  completeRun = 'QASE_SHUTDOWN_COMPLETE_RUN',
+  report = 'QASE_SHUTDOWN_REPORT',
 }
 
 /**
@@ -58,4 +152,6 @@ export enum EnvBatchEnum {
 export enum EnvLocalEnum {
   path = 'QASE_REPORT_CONNECTION_PATH',
   format = 'QASE_REPORT_CONNECTION_FORMAT',
+  junit = 'QASE_REPORT_CONNECTION_JUNIT',
+  html = 'QASE_REPORT_CONNECTION_HTML',
 }
@@ -6,11 +6,44 @@ import {
   EnvRunEnum,
   EnvLocalEnum,
   EnvPlanEnum, EnvBatchEnum,
+  EnvMultiEnum,
+  EnvShutdownEnum,
+  EnvSpoolEnum,
+  EnvAttachmentsEnum,
+  EnvFlakyEnum,
+  EnvCaseSyncEnum,
+  EnvDefectsEnum,
+  EnvIssuesEnum,
+  EnvTestOpsQuarantineEnum,
+  EnvQuarantineEnum,
 } from './env-enum';
 
 import { DriverEnum } from '../writer';
 import { ConfigType } from '../config';
 
+/**
+ * @param {string | undefined} value `key=value` pairs separated by commas
+ * @returns {Record<string, string> | undefined}
+ */
+const parsePairs = (value: string | undefined): Record<string, string> | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const pairs: Record<string, string> = {};
+
+  for (const pair of value.split(',')) {
+    const [key, ...rest] = pair.split('=');
+    const itemValue = rest.join('=').trim();
+
+    if (key?.trim() && itemValue) {
+      pairs[key.trim()] = itemValue;
+    }
+  }
+
+  return pairs;
+};
+
 /**
  * @param {EnvType} env
  * @returns {ConfigType}
@@ -36,6 +69,15 @@ export const envToConfig = (env: EnvType): ConfigType => ({
       title: env[EnvRunEnum.title],
       description: env[EnvRunEnum.description],
       complete: env[EnvRunEnum.complete],
+      rerunId: env[EnvRunEnum.rerunId],
+      milestone: env[EnvRunEnum.milestone],
+      configurations: parsePairs(env[EnvRunEnum.configurations]),
+      provision: env[EnvRunEnum.provision],
+      tags: env[EnvRunEnum.tags]?.split(',').map((tag) => tag.trim()).filter(Boolean),
+      customFields: parsePairs(env[EnvRunEnum.customFields]),
+      key: env[EnvRunEnum.key],
+      shards: env[EnvRunEnum.shards],
+      shard: env[EnvRunEnum.shard],
     },
 
     plan: {
@@ -44,16 +86,73 @@ export const envToConfig = (env: EnvType): ConfigType => ({
 
     batch: {
       size: env[EnvBatchEnum.size],
+      interval: env[EnvBatchEnum.interval],
+    },
+    spool: {
+      enabled: env[EnvSpoolEnum.enabled],
+      path: env[EnvSpoolEnum.path],
+    },
+
+    attachments: {
+      concurrency: env[EnvAttachmentsEnum.concurrency],
+      maxFileSize: env[EnvAttachmentsEnum.maxFileSize],
+      maxRunSize: env[EnvAttachmentsEnum.maxRunSize],
+      compress: env[EnvAttachmentsEnum.compress],
+      retries: env[EnvAttachmentsEnum.retries],
+    },
+
+    flaky: {
+      enabled: env[EnvFlakyEnum.enabled],
+      days: env[EnvFlakyEnum.days],
+      threshold: env[EnvFlakyEnum.threshold],
+    },
+
+    caseSync: {
+      enabled: env[EnvCaseSyncEnum.enabled],
+      cachePath: env[EnvCaseSyncEnum.cachePath],
     },
+
+    defects: {
+      enabled: env[EnvDefectsEnum.enabled],
+      resolve: env[EnvDefectsEnum.resolve],
+      severity: env[EnvDefectsEnum.severity],
+    },
+
+    issues: {
+      type: env[EnvIssuesEnum.type],
+    },
+
+    quarantine: {
+      field: env[EnvTestOpsQuarantineEnum.field],
+    },
+
     defect: env[EnvTestOpsEnum.defect],
     useV2: env[EnvTestOpsEnum.useV2],
   },
 
+  quarantine: {
+    ids: env[EnvQuarantineEnum.ids]?.split(',').map((id) => Number(id.trim())),
+    path: env[EnvQuarantineEnum.path],
+  },
+
+  multi: {
+    modes: env[EnvMultiEnum.modes]?.split(',').map((mode) => mode.trim()),
+  },
+
+  shutdown: {
+    enabled: env[EnvShutdownEnum.enabled],
+    timeout: env[EnvShutdownEnum.timeout],
+    completeRun: env[EnvShutdownEnum.completeRun],
+    report: env[EnvShutdownEnum.report],
+  },
+
   report: {
     connections: {
       [DriverEnum.local]: {
         path: env[EnvLocalEnum.path],
         format: env[EnvLocalEnum.format],
+        junit: env[EnvLocalEnum.junit],
+        html: env[EnvLocalEnum.html],
       },
     },
   },
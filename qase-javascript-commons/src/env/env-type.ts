@@ -1,3 +1,5 @@
+import { TestCaseexternalIssuesTypeEnum } from 'qaseio';
+
 import {
   EnvEnum,
   EnvTestOpsEnum,
@@ -5,14 +7,24 @@ import {
   EnvRunEnum,
   EnvLocalEnum,
   EnvPlanEnum, EnvBatchEnum,
+  EnvMultiEnum,
+  EnvShutdownEnum,
+  EnvSpoolEnum,
+  EnvAttachmentsEnum,
+  EnvFlakyEnum,
+  EnvCaseSyncEnum,
+  EnvDefectsEnum,
+  EnvIssuesEnum,
+  EnvTestOpsQuarantineEnum,
+  EnvQuarantineEnum,
 } from './env-enum';
 
-import { ModeEnum } from '../options';
+import { ModeType } from '../options';
 import { FormatEnum } from '../writer';
 
 export type EnvType = {
-  [EnvEnum.mode]?: `${ModeEnum}`;
-  [EnvEnum.fallback]?: `${ModeEnum}`;
+  [EnvEnum.mode]?: ModeType;
+  [EnvEnum.fallback]?: ModeType;
   [EnvEnum.debug]?: boolean;
   [EnvEnum.environment]?: string;
   [EnvEnum.captureLogs]?: boolean;
@@ -30,11 +42,57 @@ export type EnvType = {
   [EnvRunEnum.title]?: string;
   [EnvRunEnum.description]?: string;
   [EnvRunEnum.complete]?: boolean;
+  [EnvRunEnum.rerunId]?: number;
+  [EnvRunEnum.milestone]?: string;
+  [EnvRunEnum.configurations]?: string;
+  [EnvRunEnum.provision]?: boolean;
+  [EnvRunEnum.tags]?: string;
+  [EnvRunEnum.customFields]?: string;
+  [EnvRunEnum.key]?: string;
+  [EnvRunEnum.shards]?: number;
+  [EnvRunEnum.shard]?: string;
 
   [EnvPlanEnum.id]?: number;
 
   [EnvBatchEnum.size]?: number;
+  [EnvBatchEnum.interval]?: number;
+
+  [EnvSpoolEnum.enabled]?: boolean;
+  [EnvSpoolEnum.path]?: string;
+
+  [EnvAttachmentsEnum.concurrency]?: number;
+  [EnvAttachmentsEnum.maxFileSize]?: number;
+  [EnvAttachmentsEnum.maxRunSize]?: number;
+  [EnvAttachmentsEnum.compress]?: boolean;
+  [EnvAttachmentsEnum.retries]?: number;
+
+  [EnvFlakyEnum.enabled]?: boolean;
+  [EnvFlakyEnum.days]?: number;
+  [EnvFlakyEnum.threshold]?: number;
+
+  [EnvCaseSyncEnum.enabled]?: boolean;
+  [EnvCaseSyncEnum.cachePath]?: string;
+
+  [EnvDefectsEnum.enabled]?: boolean;
+  [EnvDefectsEnum.resolve]?: boolean;
+  [EnvDefectsEnum.severity]?: number;
+
+  [EnvIssuesEnum.type]?: `${TestCaseexternalIssuesTypeEnum}`;
+
+  [EnvTestOpsQuarantineEnum.field]?: number;
+
+  [EnvQuarantineEnum.ids]?: string;
+  [EnvQuarantineEnum.path]?: string;
+
+  [EnvMultiEnum.modes]?: string;
+
+  [EnvShutdownEnum.enabled]?: boolean;
+  [EnvShutdownEnum.timeout]?: number;
+  [EnvShutdownEnum.completeRun]?: boolean;
+  [EnvShutdownEnum.report]?: boolean;
 
   [EnvLocalEnum.path]?: string;
   [EnvLocalEnum.format]?: `${FormatEnum}`;
+  [EnvLocalEnum.junit]?: boolean;
+  [EnvLocalEnum.html]?: boolean;
 };
@@ -1,4 +1,5 @@
 import { JSONSchemaType } from 'env-schema';
+import { TestCaseexternalIssuesTypeEnum } from 'qaseio';
 
 import { EnvType } from './env-type';
 import {
@@ -8,9 +9,18 @@ import {
   EnvPlanEnum,
   EnvRunEnum,
   EnvTestOpsEnum,
+  EnvMultiEnum,
+  EnvShutdownEnum,
+  EnvSpoolEnum,
+  EnvAttachmentsEnum,
+  EnvFlakyEnum,
+  EnvCaseSyncEnum,
+  EnvDefectsEnum,
+  EnvIssuesEnum,
+  EnvTestOpsQuarantineEnum,
+  EnvQuarantineEnum,
 } from './env-enum';
 
-import { ModeEnum } from '../options';
 import { FormatEnum } from '../writer';
 
 /**
@@ -22,12 +32,10 @@ export const envValidationSchema: JSONSchemaType<EnvType> = {
   properties: {
     [EnvEnum.mode]: {
       type: 'string',
-      enum: [ModeEnum.report, ModeEnum.testops, ModeEnum.off],
       nullable: true,
     },
     [EnvEnum.fallback]: {
       type: 'string',
-      enum: [ModeEnum.report, ModeEnum.testops, ModeEnum.off],
       nullable: true,
     },
     [EnvEnum.debug]: {
@@ -89,6 +97,42 @@ export const envValidationSchema: JSONSchemaType<EnvType> = {
       type: 'boolean',
       nullable: true,
     },
+    [EnvRunEnum.rerunId]: {
+      type: 'number',
+      nullable: true,
+    },
+    [EnvRunEnum.milestone]: {
+      type: 'string',
+      nullable: true,
+    },
+    [EnvRunEnum.configurations]: {
+      type: 'string',
+      nullable: true,
+    },
+    [EnvRunEnum.provision]: {
+      type: 'boolean',
+      nullable: true,
+    },
+    [EnvRunEnum.tags]: {
+      type: 'string',
+      nullable: true,
+    },
+    [EnvRunEnum.customFields]: {
+      type: 'string',
+      nullable: true,
+    },
+    [EnvRunEnum.key]: {
+      type: 'string',
+      nullable: true,
+    },
+    [EnvRunEnum.shards]: {
+      type: 'number',
+      nullable: true,
+    },
+    [EnvRunEnum.shard]: {
+      type: 'string',
+      nullable: true,
+    },
 
     [EnvPlanEnum.id]: {
       type: 'number',
@@ -99,6 +143,117 @@ export const envValidationSchema: JSONSchemaType<EnvType> = {
       type: 'number',
       nullable: true,
     },
+    [EnvBatchEnum.interval]: {
+      type: 'number',
+      nullable: true,
+    },
+
+    [EnvSpoolEnum.enabled]: {
+      type: 'boolean',
+      nullable: true,
+    },
+    [EnvSpoolEnum.path]: {
+      type: 'string',
+      nullable: true,
+    },
+
+    [EnvAttachmentsEnum.concurrency]: {
+      type: 'number',
+      nullable: true,
+    },
+    [EnvAttachmentsEnum.maxFileSize]: {
+      type: 'number',
+      nullable: true,
+    },
+    [EnvAttachmentsEnum.maxRunSize]: {
+      type: 'number',
+      nullable: true,
+    },
+    [EnvAttachmentsEnum.compress]: {
+      type: 'boolean',
+      nullable: true,
+    },
+    [EnvAttachmentsEnum.retries]: {
+      type: 'number',
+      nullable: true,
+    },
+
+    [EnvFlakyEnum.enabled]: {
+      type: 'boolean',
+      nullable: true,
+    },
+    [EnvFlakyEnum.days]: {
+      type: 'number',
+      nullable: true,
+    },
+    [EnvFlakyEnum.threshold]: {
+      type: 'number',
+      nullable: true,
+    },
+
+    [EnvCaseSyncEnum.enabled]: {
+      type: 'boolean',
+      nullable: true,
+    },
+    [EnvCaseSyncEnum.cachePath]: {
+      type: 'string',
+      nullable: true,
+    },
+
+    [EnvDefectsEnum.enabled]: {
+      type: 'boolean',
+      nullable: true,
+    },
+    [EnvDefectsEnum.resolve]: {
+      type: 'boolean',
+      nullable: true,
+    },
+    [EnvDefectsEnum.severity]: {
+      type: 'number',
+      nullable: true,
+    },
+
+    [EnvIssuesEnum.type]: {
+      type: 'string',
+      enum: [TestCaseexternalIssuesTypeEnum.CLOUD, TestCaseexternalIssuesTypeEnum.SERVER],
+      nullable: true,
+    },
+
+    [EnvTestOpsQuarantineEnum.field]: {
+      type: 'number',
+      nullable: true,
+    },
+
+    [EnvQuarantineEnum.ids]: {
+      type: 'string',
+      nullable: true,
+    },
+    [EnvQuarantineEnum.path]: {
+      type: 'string',
+      nullable: true,
+    },
+
+    [EnvMultiEnum.modes]: {
+      type: 'string',
+      nullable: true,
+    },
+
+    [EnvShutdownEnum.enabled]: {
+      type: 'boolean',
+      nullable: true,
+    },
+    [EnvShutdownEnum.timeout]: {
+      type: 'number',
+      nullable: true,
+    },
+    [EnvShutdownEnum.completeRun]: {
+      type: 'boolean',
+      nullable: true,
+    },
+    [EnvShutdownEnum.report]: {
+      type: 'boolean',
+      nullable: true,
+    },
 
     [EnvLocalEnum.path]: {
       type: 'string',
@@ -109,5 +264,13 @@ export const envValidationSchema: JSONSchemaType<EnvType> = {
       enum: [FormatEnum.json, FormatEnum.jsonp],
       nullable: true,
     },
+    [EnvLocalEnum.junit]: {
+      type: 'boolean',
+      nullable: true,
+    },
+    [EnvLocalEnum.html]: {
+      type: 'boolean',
+      nullable: true,
+    },
   },
 };
@@ -3,7 +3,18 @@ export {
   EnvTestOpsEnum,
   EnvApiEnum,
   EnvRunEnum,
+  EnvPlanEnum,
   EnvLocalEnum,
+  EnvMultiEnum,
+  EnvShutdownEnum,
+  EnvSpoolEnum,
+  EnvAttachmentsEnum,
+  EnvFlakyEnum,
+  EnvCaseSyncEnum,
+  EnvDefectsEnum,
+  EnvIssuesEnum,
+  EnvTestOpsQuarantineEnum,
+  EnvQuarantineEnum,
 } from './env-enum';
 
 export { type EnvType } from './env-type';
@@ -0,0 +1,156 @@
+import { QaseApiInterface, Result } from 'qaseio';
+
+import { LoggerInterface } from '../utils/logger';
+
+export interface FlakyDetectorOptionsType {
+  days?: number | undefined;
+  threshold?: number | undefined;
+}
+
+export interface FlakyScoreType {
+  caseId: number;
+  score: number;
+  results: number;
+  failures: number;
+}
+
+const defaultDays = 14;
+const defaultThreshold = 0.2;
+const resultsPerPage = 100;
+// the latest results are enough to score a case, and a long history of one case doesn't truncate the others
+const maxResultsPerCase = 200;
+
+/**
+ * Computes the flakiness of the test cases from the results of the previous runs.
+ * The score is the share of the consecutive results with a different status:
+ * 0 for a test which always has the same status, 1 for a test which changes it every run.
+ *
+ * @class FlakyDetector
+ */
+export class FlakyDetector {
+  private readonly days: number;
+  private readonly threshold: number;
+
+  /**
+   * @type {Map<number, FlakyScoreType>}
+   * @private
+   */
+  private readonly scores = new Map<number, FlakyScoreType>();
+
+  /**
+   * @param {LoggerInterface} logger
+   * @param {QaseApiInterface} api
+   * @param {string} projectCode
+   * @param {FlakyDetectorOptionsType} options
+   */
+  constructor(
+    private readonly logger: LoggerInterface,
+    private readonly api: QaseApiInterface,
+    private readonly projectCode: string,
+    options: FlakyDetectorOptionsType = {},
+  ) {
+    this.days = options.days ?? defaultDays;
+    this.threshold = options.threshold ?? defaultThreshold;
+  }
+
+  /**
+   * Fetches the history of the cases which were not analyzed yet
+   *
+   * @param {number[]} caseIds
+   * @param {number | undefined} currentRunId results of this run are not a part of the history
+   * @returns {Promise<void>}
+   */
+  public async analyze(caseIds: number[], currentRunId?: number): Promise<void> {
+    const newIds = [...new Set(caseIds)].filter((id) => !this.scores.has(id));
+
+    for (const id of newIds) {
+      const history = await this.getHistory(id);
+
+      this.scores.set(id, this.getScore(id, history.filter(({ run_id }) => run_id !== currentRunId)));
+    }
+  }
+
+  /**
+   * @param {number} caseId
+   * @returns {FlakyScoreType | undefined} the score, if the case is known to be flaky
+   */
+  public getFlakyScore(caseId: number): FlakyScoreType | undefined {
+    const score = this.scores.get(caseId);
+
+    return score && score.score >= this.threshold ? score : undefined;
+  }
+
+  /**
+   * @param {number} caseId
+   * @returns {Promise<Result[]>}
+   * @private
+   */
+  private async getHistory(caseId: number): Promise<Result[]> {
+    const from = new Date(Date.now() - this.days * 24 * 60 * 60 * 1000);
+    const history: Result[] = [];
+
+    for (let offset = 0; offset < maxResultsPerCase; offset += resultsPerPage) {
+      const { data } = await this.api.results.getResults(
+        this.projectCode,
+        undefined,
+        undefined,
+        String(caseId),
+        undefined,
+        undefined,
+        this.formatDate(from),
+        undefined,
+        resultsPerPage,
+        offset,
+      );
+
+      const entities = data.result?.entities ?? [];
+
+      history.push(...entities);
+
+      if (entities.length < resultsPerPage) {
+        break;
+      }
+    }
+
+    this.logger.logDebug(`History of case ${caseId}: ${history.length} results`);
+
+    return history;
+  }
+
+  /**
+   * @param {number} caseId
+   * @param {Result[]} results
+   * @returns {FlakyScoreType}
+   * @private
+   */
+  private getScore(caseId: number, results: Result[]): FlakyScoreType {
+    const statuses = results
+      .filter(({ status }) => status === 'passed' || status === 'failed')
+      .sort((a, b) => (a.end_time ?? '').localeCompare(b.end_time ?? ''))
+      .map(({ status }) => status);
+
+    let flips = 0;
+
+    for (let index = 1; index < statuses.length; index++) {
+      if (statuses[index] !== statuses[index - 1]) {
+        flips++;
+      }
+    }
+
+    return {
+      caseId,
+      score: statuses.length > 1 ? flips / (statuses.length - 1) : 0,
+      results: statuses.length,
+      failures: statuses.filter((status) => status === 'failed').length,
+    };
+  }
+
+  /**
+   * @param {Date} date
+   * @returns {string} date in the `Y-m-d H:i:s` format, UTC
+   * @private
+   */
+  private formatDate(date: Date): string {
+    return date.toISOString().replace('T', ' ').split('.')[0] ?? '';
+  }
+}
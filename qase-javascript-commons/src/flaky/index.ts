@@ -0,0 +1 @@
+export { FlakyDetector, type FlakyDetectorOptionsType, type FlakyScoreType } from './flaky-detector';
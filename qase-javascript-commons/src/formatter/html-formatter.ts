@@ -0,0 +1,363 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+
+import stripAnsi from 'strip-ansi';
+
+import { FormatterInterface } from './formatter-interface';
+
+import { Attachment, Report, TestAttemptType, TestResultType, TestStepType } from '../models';
+
+export type HtmlFormatterOptionsType = {
+  basePath?: string | undefined;
+};
+
+export interface HtmlReportType {
+  report: Report;
+  results: TestResultType[];
+}
+
+interface SuiteNodeType {
+  title: string;
+  suites: Map<string, SuiteNodeType>;
+  results: TestResultType[];
+}
+
+const maxInlineTextSize = 64 * 1024;
+
+const styles = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 0; padding: 24px; color: #1f2328; background: #f6f8fa; }
+h1 { margin-top: 0; }
+.stats { display: flex; gap: 12px; flex-wrap: wrap; margin-bottom: 24px; }
+.stat { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 8px 16px; }
+.stat b { display: block; font-size: 20px; }
+details { margin: 4px 0 4px 16px; }
+summary { cursor: pointer; padding: 2px 0; }
+.suite > summary { font-weight: 600; }
+.test { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 4px 8px; }
+.status { display: inline-block; min-width: 64px; padding: 0 6px; border-radius: 4px; color: #fff; font-size: 12px; text-align: center; }
+.status-passed { background: #1a7f37; }
+.status-failed { background: #cf222e; }
+.status-invalid { background: #bc4c00; }
+.status-skipped, .status-disabled { background: #6e7781; }
+.status-blocked { background: #8250df; }
+.duration { color: #6e7781; font-size: 12px; }
+pre { background: #f6f8fa; padding: 8px; overflow: auto; white-space: pre-wrap; }
+table { border-collapse: collapse; margin: 8px 0; }
+td, th { border: 1px solid #d0d7de; padding: 2px 8px; text-align: left; }
+ul.steps { list-style: none; padding-left: 16px; }
+img { max-width: 100%; border: 1px solid #d0d7de; }
+`;
+
+/**
+ * Formats the report and the test results as a static HTML page
+ *
+ * @class HtmlFormatter
+ * @implements FormatterInterface
+ */
+export class HtmlFormatter implements FormatterInterface {
+  private basePath: string;
+
+  constructor(options: HtmlFormatterOptionsType = {}) {
+    const { basePath = '.' } = options;
+
+    this.basePath = basePath;
+  }
+
+  /**
+   * @param {unknown} object the report and the test results
+   * @returns {Promise<string>}
+   */
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async format(object: unknown): Promise<string> {
+    const { report, results } = object as HtmlReportType;
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${this.escape(report.title)}</title>`,
+      `<style>${styles}</style>`,
+      '</head>',
+      '<body>',
+      `<h1>${this.escape(report.title)}</h1>`,
+      this.formatStats(report),
+      this.formatSuite(this.buildSuiteTree(results), true),
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * @param {Report} report
+   * @returns {string}
+   * @private
+   */
+  private formatStats(report: Report): string {
+    const items: [string, string | number][] = [
+      ['Total', report.stats.total],
+      ['Passed', report.stats.passed],
+      ['Failed', report.stats.failed],
+      ['Skipped', report.stats.skipped],
+      ['Broken', report.stats.broken],
+      ['Muted', report.stats.muted],
+      ['Duration', this.formatDuration(report.execution.duration)],
+    ];
+
+    if (report.environment) {
+      items.push(['Environment', report.environment]);
+    }
+
+    const stats = items
+      .map(([name, value]) => `<div class="stat">${this.escape(name)}<b>${this.escape(String(value))}</b></div>`)
+      .join('');
+
+    return `<div class="stats">${stats}</div>`;
+  }
+
+  /**
+   * @param {TestResultType[]} results
+   * @returns {SuiteNodeType}
+   * @private
+   */
+  private buildSuiteTree(results: TestResultType[]): SuiteNodeType {
+    const root: SuiteNodeType = { title: '', suites: new Map(), results: [] };
+
+    for (const result of results) {
+      let node = root;
+
+      for (const { title } of result.relations?.suite?.data ?? []) {
+        let child = node.suites.get(title);
+
+        if (!child) {
+          child = { title, suites: new Map(), results: [] };
+          node.suites.set(title, child);
+        }
+
+        node = child;
+      }
+
+      node.results.push(result);
+    }
+
+    return root;
+  }
+
+  /**
+   * @param {SuiteNodeType} node
+   * @param {boolean} isRoot
+   * @returns {string}
+   * @private
+   */
+  private formatSuite(node: SuiteNodeType, isRoot = false): string {
+    const content = [
+      ...[...node.suites.values()].map((suite) => this.formatSuite(suite)),
+      ...node.results.map((result) => this.formatResult(result)),
+    ].join('\n');
+
+    if (isRoot) {
+      return content;
+    }
+
+    return `<details class="suite" open><summary>${this.escape(node.title)}</summary>\n${content}\n</details>`;
+  }
+
+  /**
+   * @param {TestResultType} result
+   * @returns {string}
+   * @private
+   */
+  private formatResult(result: TestResultType): string {
+    const { status, duration, stacktrace } = result.execution;
+    const parts: string[] = [];
+
+    if (result.message) {
+      parts.push(`<pre>${this.escape(result.message)}</pre>`);
+    }
+
+    if (stacktrace) {
+      parts.push(`<details><summary>Stacktrace</summary><pre>${this.escape(stacktrace)}</pre></details>`);
+    }
+
+    if (result.attempts && result.attempts.length > 0) {
+      parts.push(this.formatAttempts(result.attempts));
+    }
+
+    parts.push(this.formatTable('Parameters', { ...result.params, ...result.group_params }));
+    parts.push(this.formatTable('Fields', result.fields));
+
+    if (result.steps.length > 0) {
+      parts.push(`<ul class="steps">${this.formatSteps(result.steps)}</ul>`);
+    }
+
+    parts.push(...result.attachments.map((attachment) => this.formatAttachment(attachment)));
+
+    const summary = [
+      this.formatStatus(status),
+      this.escape(result.title),
+      `<span class="duration">${this.formatDuration(duration)}</span>`,
+    ].join(' ');
+
+    return `<details class="test"><summary>${summary}</summary>\n${parts.join('\n')}\n</details>`;
+  }
+
+  /**
+   * @param {TestStepType[]} steps
+   * @returns {string}
+   * @private
+   */
+  private formatSteps(steps: TestStepType[]): string {
+    return steps.map((step) => {
+      const title = 'action' in step.data
+        ? step.data.action
+        : `${step.data.keyword} ${step.data.name}`;
+
+      const parts = [
+        this.formatStatus(step.execution.status),
+        this.escape(title),
+        `<span class="duration">${this.formatDuration(step.execution.duration)}</span>`,
+      ];
+
+      if ('expected_result' in step.data && step.data.expected_result) {
+        parts.push(`<div>Expected: ${this.escape(step.data.expected_result)}</div>`);
+      }
+
+      parts.push(...step.attachments.map((attachment) => this.formatAttachment(attachment)));
+
+      if (step.steps.length > 0) {
+        parts.push(`<ul class="steps">${this.formatSteps(step.steps)}</ul>`);
+      }
+
+      return `<li>${parts.join(' ')}</li>`;
+    }).join('\n');
+  }
+
+  /**
+   * @param {TestAttemptType[]} attempts
+   * @returns {string}
+   * @private
+   */
+  private formatAttempts(attempts: TestAttemptType[]): string {
+    const items = attempts.map(({ execution, message }, index) => {
+      const parts = [
+        `Attempt ${index + 1}`,
+        this.formatStatus(execution.status),
+        `<span class="duration">${this.formatDuration(execution.duration)}</span>`,
+      ];
+
+      if (message) {
+        parts.push(`<pre>${this.escape(message)}</pre>`);
+      }
+
+      return `<li>${parts.join(' ')}</li>`;
+    });
+
+    return `<details><summary>Retries: ${attempts.length}</summary><ul class="steps">${items.join('')}</ul></details>`;
+  }
+
+  /**
+   * @param {string} title
+   * @param {Record<string, string>} values
+   * @returns {string}
+   * @private
+   */
+  private formatTable(title: string, values: Record<string, string>): string {
+    const rows = Object.entries(values)
+      .map(([key, value]) => `<tr><td>${this.escape(key)}</td><td>${this.escape(value)}</td></tr>`);
+
+    if (rows.length === 0) {
+      return '';
+    }
+
+    return `<table><tr><th colspan="2">${this.escape(title)}</th></tr>${rows.join('')}</table>`;
+  }
+
+  /**
+   * Images and small text files are shown inline, other files are linked
+   *
+   * @param {Attachment} attachment
+   * @returns {string}
+   * @private
+   */
+  private formatAttachment(attachment: Attachment): string {
+    const name = this.escape(attachment.file_name);
+
+    if (attachment.file_path) {
+      const href = this.escape(
+        path.relative(this.basePath, attachment.file_path).split(path.sep).join('/'),
+      );
+
+      if (attachment.mime_type.startsWith('image/')) {
+        return `<details open><summary>${name}</summary><img src="${href}" alt="${name}"></details>`;
+      }
+
+      if (attachment.mime_type.startsWith('text/')) {
+        const content = this.readText(attachment.file_path);
+
+        if (content !== undefined) {
+          return `<details><summary>${name}</summary><pre>${this.escape(content)}</pre></details>`;
+        }
+      }
+
+      return `<div><a href="${href}">${name}</a></div>`;
+    }
+
+    if (typeof attachment.content === 'string' && attachment.content.length <= maxInlineTextSize) {
+      return `<details><summary>${name}</summary><pre>${this.escape(attachment.content)}</pre></details>`;
+    }
+
+    return `<div>${name}</div>`;
+  }
+
+  /**
+   * @param {string} filePath
+   * @returns {string | undefined}
+   * @private
+   */
+  private readText(filePath: string): string | undefined {
+    try {
+      const content = readFileSync(filePath);
+
+      return content.length <= maxInlineTextSize ? content.toString('utf8') : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * @param {string} status
+   * @returns {string}
+   * @private
+   */
+  private formatStatus(status: string): string {
+    return `<span class="status status-${this.escape(status)}">${this.escape(status)}</span>`;
+  }
+
+  /**
+   * @param {number | null} duration in milliseconds
+   * @returns {string}
+   * @private
+   */
+  private formatDuration(duration: number | null): string {
+    if (duration === null) {
+      return '';
+    }
+
+    return duration < 1000 ? `${duration}ms` : `${(duration / 1000).toFixed(2)}s`;
+  }
+
+  /**
+   * @param {string} value
+   * @returns {string}
+   * @private
+   */
+  private escape(value: string): string {
+    return stripAnsi(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
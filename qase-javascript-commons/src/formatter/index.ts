@@ -1,3 +1,5 @@
 export { type FormatterInterface } from './formatter-interface';
 export { JsonFormatter } from './json-formatter';
 export { JsonpFormatter } from './jsonp-formatter';
+export { JunitFormatter } from './junit-formatter';
+export { HtmlFormatter, type HtmlReportType } from './html-formatter';
@@ -0,0 +1,317 @@
+import stripAnsi from 'strip-ansi';
+
+import { FormatterInterface } from './formatter-interface';
+
+import { TestResultType, TestStatusEnum, TestStepType } from '../models';
+
+export type JunitFormatterOptionsType = {
+  name?: string | undefined;
+};
+
+interface JunitSuiteType {
+  name: string;
+  results: TestResultType[];
+}
+
+const defaultSuiteName = 'Default suite';
+
+/**
+ * Formats test results as JUnit XML
+ *
+ * @class JunitFormatter
+ * @implements FormatterInterface
+ */
+export class JunitFormatter implements FormatterInterface {
+  private name: string;
+
+  constructor(options: JunitFormatterOptionsType = {}) {
+    const { name = 'Test report' } = options;
+
+    this.name = name;
+  }
+
+  /**
+   * @param {unknown} object array of test results
+   * @returns {Promise<string>}
+   */
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async format(object: unknown): Promise<string> {
+    const results = object as TestResultType[];
+    const suites = this.groupBySuite(results);
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites${this.attributes({ name: this.name, ...this.getCounters(results) })}>`,
+    ];
+
+    for (const suite of suites) {
+      lines.push(...this.formatSuite(suite));
+    }
+
+    lines.push('</testsuites>', '');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * @param {TestResultType[]} results
+   * @returns {JunitSuiteType[]}
+   * @private
+   */
+  private groupBySuite(results: TestResultType[]): JunitSuiteType[] {
+    const suites = new Map<string, JunitSuiteType>();
+
+    for (const result of results) {
+      const titles = result.relations?.suite?.data.map(({ title }) => title) ?? [];
+      const name = titles.length > 0 ? titles.join(' > ') : defaultSuiteName;
+
+      const suite = suites.get(name);
+
+      if (suite) {
+        suite.results.push(result);
+      } else {
+        suites.set(name, { name, results: [result] });
+      }
+    }
+
+    return [...suites.values()];
+  }
+
+  /**
+   * @param {JunitSuiteType} suite
+   * @returns {string[]}
+   * @private
+   */
+  private formatSuite(suite: JunitSuiteType): string[] {
+    const startTimes = suite.results
+      .map(({ execution }) => execution.start_time)
+      .filter((time): time is number => time !== null && time > 0);
+
+    const attributes: Record<string, string | number> = {
+      name: suite.name,
+      ...this.getCounters(suite.results),
+    };
+
+    if (startTimes.length > 0) {
+      attributes['timestamp'] = this.toIsoDate(Math.min(...startTimes));
+    }
+
+    const lines = [`  <testsuite${this.attributes(attributes)}>`];
+
+    for (const result of suite.results) {
+      lines.push(...this.formatTestCase(result, suite.name));
+    }
+
+    lines.push('  </testsuite>');
+
+    return lines;
+  }
+
+  /**
+   * @param {TestResultType} result
+   * @param {string} suiteName
+   * @returns {string[]}
+   * @private
+   */
+  private formatTestCase(result: TestResultType, suiteName: string): string[] {
+    const attributes = {
+      name: result.title,
+      classname: suiteName,
+      time: this.toSeconds(result.execution.duration),
+    };
+
+    const lines = [`    <testcase${this.attributes(attributes)}>`];
+
+    const properties = this.getProperties(result);
+
+    if (properties.length > 0) {
+      lines.push('      <properties>');
+
+      for (const [name, value] of properties) {
+        lines.push(`        <property${this.attributes({ name, value })}/>`);
+      }
+
+      lines.push('      </properties>');
+    }
+
+    const message = result.message ?? '';
+    const stacktrace = result.execution.stacktrace ?? '';
+
+    // muted failures don't fail the CI which reads the report
+    switch (result.muted ? TestStatusEnum.skipped : result.execution.status) {
+      case TestStatusEnum.failed:
+        lines.push(`      <failure${this.attributes({ message, type: 'failure' })}>${this.escape(stacktrace)}</failure>`);
+        break;
+      case TestStatusEnum.invalid:
+        lines.push(`      <error${this.attributes({ message, type: 'error' })}>${this.escape(stacktrace)}</error>`);
+        break;
+      case TestStatusEnum.skipped:
+      case TestStatusEnum.disabled:
+      case TestStatusEnum.blocked:
+        lines.push(`      <skipped${this.attributes({ message })}/>`);
+        break;
+    }
+
+    lines.push(...this.formatAttempts(result));
+
+    if (result.steps.length > 0) {
+      lines.push(`      <system-out>${this.escape(this.formatSteps(result.steps, 0).join('\n'))}</system-out>`);
+    }
+
+    lines.push('    </testcase>');
+
+    return lines;
+  }
+
+  /**
+   * Failed attempts of a retried test, in the Maven Surefire format
+   *
+   * @param {TestResultType} result
+   * @returns {string[]}
+   * @private
+   */
+  private formatAttempts(result: TestResultType): string[] {
+    const prefix = result.execution.status === TestStatusEnum.passed ? 'flaky' : 'rerun';
+    const lines: string[] = [];
+
+    for (const { execution, message } of result.attempts ?? []) {
+      if (execution.status !== TestStatusEnum.failed && execution.status !== TestStatusEnum.invalid) {
+        continue;
+      }
+
+      const element = `${prefix}${execution.status === TestStatusEnum.failed ? 'Failure' : 'Error'}`;
+      const attributes = this.attributes({ message: message ?? '', type: execution.status });
+
+      lines.push(`      <${element}${attributes}>${this.escape(execution.stacktrace ?? '')}</${element}>`);
+    }
+
+    return lines;
+  }
+
+  /**
+   * @param {TestResultType} result
+   * @returns {[string, string][]}
+   * @private
+   */
+  private getProperties(result: TestResultType): [string, string][] {
+    const properties: [string, string][] = [];
+
+    const ids = Array.isArray(result.testops_id) ? result.testops_id : [result.testops_id];
+
+    for (const id of ids) {
+      if (id !== null) {
+        properties.push(['qase.id', String(id)]);
+      }
+    }
+
+    if (result.muted) {
+      properties.push(['qase.muted', 'true']);
+    }
+
+    for (const [key, value] of Object.entries(result.fields)) {
+      properties.push([`qase.field.${key}`, value]);
+    }
+
+    for (const [key, value] of Object.entries({ ...result.params, ...result.group_params })) {
+      properties.push([`qase.param.${key}`, value]);
+    }
+
+    for (const attachment of result.attachments) {
+      properties.push(['attachment', attachment.file_path ?? attachment.file_name]);
+    }
+
+    return properties;
+  }
+
+  /**
+   * @param {TestStepType[]} steps
+   * @param {number} depth
+   * @returns {string[]}
+   * @private
+   */
+  private formatSteps(steps: TestStepType[], depth: number): string[] {
+    const lines: string[] = [];
+
+    for (const step of steps) {
+      const title = 'action' in step.data
+        ? step.data.action
+        : `${step.data.keyword} ${step.data.name}`;
+      const duration = step.execution.duration === null ? '' : ` (${step.execution.duration}ms)`;
+
+      lines.push(`${'  '.repeat(depth)}[${step.execution.status}] ${title}${duration}`);
+
+      for (const attachment of step.attachments) {
+        lines.push(`${'  '.repeat(depth + 1)}[[ATTACHMENT|${attachment.file_path ?? attachment.file_name}]]`);
+      }
+
+      lines.push(...this.formatSteps(step.steps, depth + 1));
+    }
+
+    return lines;
+  }
+
+  /**
+   * @param {TestResultType[]} results
+   * @returns {Record<string, string | number>}
+   * @private
+   */
+  private getCounters(results: TestResultType[]): Record<string, string | number> {
+    const statuses = results.map(({ execution, muted }) => (muted ? TestStatusEnum.skipped : execution.status));
+    const duration = results.reduce((sum, { execution }) => sum + (execution.duration ?? 0), 0);
+
+    return {
+      tests: results.length,
+      failures: statuses.filter((status) => status === TestStatusEnum.failed).length,
+      errors: statuses.filter((status) => status === TestStatusEnum.invalid).length,
+      skipped: statuses.filter((status) => status === TestStatusEnum.skipped
+        || status === TestStatusEnum.disabled
+        || status === TestStatusEnum.blocked).length,
+      time: this.toSeconds(duration),
+    };
+  }
+
+  /**
+   * @param {Record<string, string | number>} attributes
+   * @returns {string}
+   * @private
+   */
+  private attributes(attributes: Record<string, string | number>): string {
+    return Object.entries(attributes)
+      .map(([key, value]) => ` ${key}="${this.escape(String(value))}"`)
+      .join('');
+  }
+
+  /**
+   * @param {number | null} duration in milliseconds
+   * @returns {string}
+   * @private
+   */
+  private toSeconds(duration: number | null): string {
+    return ((duration ?? 0) / 1000).toFixed(3);
+  }
+
+  /**
+   * @param {number} time in seconds
+   * @returns {string}
+   * @private
+   */
+  private toIsoDate(time: number): string {
+    return new Date(time * 1000).toISOString().split('.')[0] ?? '';
+  }
+
+  /**
+   * @param {string} value
+   * @returns {string}
+   * @private
+   */
+  private escape(value: string): string {
+    return stripAnsi(value)
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
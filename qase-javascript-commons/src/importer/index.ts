@@ -0,0 +1 @@
+export { ReportImporter } from './report-importer';
@@ -0,0 +1,44 @@
+import chalk from 'chalk';
+
+import { InternalReporterInterface } from '../reporters';
+import { FsReader } from '../reader';
+import { LoggerInterface } from '../utils/logger';
+
+/**
+ * Publish the results of a local report through another reporter
+ *
+ * @class ReportImporter
+ */
+export class ReportImporter {
+  /**
+   * @param {LoggerInterface} logger
+   * @param {InternalReporterInterface} reporter
+   */
+  constructor(
+    private readonly logger: LoggerInterface,
+    private readonly reporter: InternalReporterInterface,
+  ) {}
+
+  /**
+   * @param {string} reportPath
+   * @returns {Promise<number>} count of imported results
+   */
+  public async import(reportPath: string): Promise<number> {
+    const results = new FsReader(reportPath).readTestResults();
+
+    if (results.length === 0) {
+      this.logger.log(chalk`{yellow No results found in ${reportPath}}`);
+      return 0;
+    }
+
+    await this.reporter.startTestRun();
+
+    for (const result of results) {
+      await this.reporter.addTestResult(result);
+    }
+
+    await this.reporter.publish();
+
+    return results.length;
+  }
+}
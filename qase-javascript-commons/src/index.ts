@@ -6,6 +6,23 @@ export * from './models';
 export * from './options';
 export * from './reporters';
 export * from './writer';
+export * from './spool';
+export * from './attachments';
+export * from './reader';
+export * from './importer';
+export * from './merger';
+export * from './flaky';
+export * from './cases';
+export * from './plan';
+export * from './rerun';
+export * from './quarantine';
+export * from './defects';
+export * from './issues';
+export * from './provision';
+export * from './ci';
+export * from './shared-run';
+export * from './shutdown';
 
 export * from './utils/get-package-version';
 export * from './utils/mimeTypes';
+export { type LoggerInterface } from './utils/logger';
@@ -0,0 +1 @@
+export { IssueSync, type IssueSyncOptionsType, type StaleIssuesType } from './issue-sync';
@@ -0,0 +1,110 @@
+import { QaseApiInterface, TestCaseexternalIssuesTypeEnum } from 'qaseio';
+
+import { TestResultType } from '../models';
+import { LoggerInterface } from '../utils/logger';
+
+export interface IssueSyncOptionsType {
+  type?: `${TestCaseexternalIssuesTypeEnum}` | undefined;
+}
+
+export interface StaleIssuesType {
+  caseId: number;
+  issues: string[];
+}
+
+/**
+ * Links the test cases to the external issues declared in the tests, e.g. with `qase.issue('PROJ-123')`
+ *
+ * @class IssueSync
+ */
+export class IssueSync {
+  private readonly type: TestCaseexternalIssuesTypeEnum;
+
+  /**
+   * Issue keys declared by the results, keyed by case ID
+   * @type {Map<number, Set<string>>}
+   * @private
+   */
+  private readonly declared = new Map<number, Set<string>>();
+
+  /**
+   * @param {LoggerInterface} logger
+   * @param {QaseApiInterface} api
+   * @param {string} projectCode
+   * @param {IssueSyncOptionsType} options
+   */
+  constructor(
+    private readonly logger: LoggerInterface,
+    private readonly api: QaseApiInterface,
+    private readonly projectCode: string,
+    options: IssueSyncOptionsType = {},
+  ) {
+    this.type = options.type === TestCaseexternalIssuesTypeEnum.SERVER
+      ? TestCaseexternalIssuesTypeEnum.SERVER
+      : TestCaseexternalIssuesTypeEnum.CLOUD;
+  }
+
+  /**
+   * @param {TestResultType[]} results
+   */
+  public collect(results: TestResultType[]): void {
+    for (const { testops_id, issues } of results) {
+      if (testops_id === null || !issues || issues.length === 0) {
+        continue;
+      }
+
+      for (const caseId of Array.isArray(testops_id) ? testops_id : [testops_id]) {
+        const keys = this.declared.get(caseId) ?? new Set<string>();
+
+        issues.forEach((issue) => keys.add(issue.trim()));
+        this.declared.set(caseId, keys);
+      }
+    }
+  }
+
+  /**
+   * Attaches the declared issues which the cases are not linked to yet
+   *
+   * @returns {Promise<StaleIssuesType[]>} issues linked to the cases but no longer declared in the tests
+   */
+  public async sync(): Promise<StaleIssuesType[]> {
+    const links: { case_id: number, external_issues: string[] }[] = [];
+    const stale: StaleIssuesType[] = [];
+
+    for (const [caseId, keys] of this.declared) {
+      const linked = await this.getLinkedIssues(caseId);
+      const missing = [...keys].filter((key) => !linked.includes(key));
+      const notDeclared = linked.filter((key) => !keys.has(key));
+
+      if (missing.length > 0) {
+        links.push({ case_id: caseId, external_issues: missing });
+      }
+
+      if (notDeclared.length > 0) {
+        stale.push({ caseId, issues: notDeclared });
+      }
+    }
+
+    if (links.length > 0) {
+      await this.api.cases.caseAttachExternalIssue(this.projectCode, { type: this.type, links });
+      this.logger.logDebug(`External issues attached: ${JSON.stringify(links)}`);
+    }
+
+    return stale;
+  }
+
+  /**
+   * @param {number} caseId
+   * @returns {Promise<string[]>}
+   * @private
+   */
+  private async getLinkedIssues(caseId: number): Promise<string[]> {
+    const { data } = await this.api.cases.getCase(this.projectCode, caseId);
+
+    return (data.result?.external_issues ?? [])
+      .filter(({ type }) => type === this.type)
+      .flatMap(({ issues }) => issues ?? [])
+      .map(({ id }) => id)
+      .filter((id): id is string => id !== undefined);
+  }
+}
@@ -0,0 +1 @@
+export { ReportMerger } from './report-merger';
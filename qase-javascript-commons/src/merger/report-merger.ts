@@ -0,0 +1,166 @@
+import * as path from 'path';
+
+import chalk from 'chalk';
+
+import { Report, TestResultType, TestStepType } from '../models';
+import { FsReader } from '../reader';
+import { FsWriter, FsWriterOptionsType } from '../writer';
+import { LoggerInterface } from '../utils/logger';
+import { QaseError } from '../utils/qase-error';
+import { summarizeResults } from '../utils/summarize-results';
+
+/**
+ * Combines the report directories of sharded or parallel jobs into one report
+ *
+ * @class ReportMerger
+ */
+export class ReportMerger {
+  private readonly writer: FsWriter;
+  private readonly outputPath: string;
+
+  /**
+   * @param {LoggerInterface} logger
+   * @param {FsWriterOptionsType} options of the merged report
+   */
+  constructor(
+    private readonly logger: LoggerInterface,
+    options: FsWriterOptionsType = {},
+  ) {
+    this.outputPath = options.path ?? path.join('build', 'qase-report');
+    this.writer = new FsWriter({ ...options, path: this.outputPath });
+  }
+
+  /**
+   * @param {string[]} sourcePaths
+   * @returns {Promise<Report>} merged report
+   */
+  public async merge(sourcePaths: string[]): Promise<Report> {
+    if (sourcePaths.length === 0) {
+      throw new QaseError('At least one report directory is required');
+    }
+
+    const outputPath = path.resolve(this.outputPath);
+
+    if (sourcePaths.some((sourcePath) => path.resolve(sourcePath) === outputPath)) {
+      throw new QaseError(`The merged report cannot be written to the source directory ${this.outputPath}`);
+    }
+
+    const reports: Report[] = [];
+    const results: TestResultType[] = [];
+
+    // read everything before the output directory is cleared
+    for (const sourcePath of sourcePaths) {
+      const reader = new FsReader(sourcePath);
+      const report = reader.readReport();
+
+      if (report) {
+        reports.push(report);
+      }
+
+      results.push(...reader.readTestResults());
+    }
+
+    const [firstReport] = reports;
+
+    if (!firstReport) {
+      throw new QaseError(`No report found in ${sourcePaths.join(', ')}`);
+    }
+
+    const uniqueResults = this.deduplicate(results);
+
+    if (uniqueResults.length < results.length) {
+      this.logger.log(chalk`{yellow Duplicated results skipped: ${results.length - uniqueResults.length}}`);
+    }
+
+    this.writer.clearPreviousResults();
+
+    for (const result of uniqueResults) {
+      result.attachments = this.writer.writeAttachment(result.attachments);
+      result.steps = this.copyStepAttachments(result.steps);
+
+      await this.writer.writeTestResult(result);
+    }
+
+    const { stats, results: shortResults, threads, cumulativeDuration } = summarizeResults(uniqueResults);
+    const startTime = Math.min(...reports.map(({ execution }) => execution.start_time));
+    const endTime = Math.max(...reports.map(({ execution }) => execution.end_time));
+
+    const report: Report = {
+      title: firstReport.title,
+      execution: {
+        start_time: startTime,
+        end_time: endTime,
+        duration: endTime - startTime,
+        cumulative_duration: cumulativeDuration,
+      },
+      stats,
+      results: shortResults,
+      threads,
+      suites: [],
+      environment: reports.find(({ environment }) => environment)?.environment ?? '',
+      host_data: firstReport.host_data,
+    };
+
+    const reportPath = await this.writer.writeReport(report);
+
+    this.logger.log(`Report saved to ${reportPath}`);
+
+    return report;
+  }
+
+  /**
+   * Keep a single result for each ID and for each signature.
+   * If a test was run by several jobs, the latest result wins.
+   *
+   * @param {TestResultType[]} results
+   * @returns {TestResultType[]}
+   * @private
+   */
+  private deduplicate(results: TestResultType[]): TestResultType[] {
+    const ids = new Set<string>();
+    const bySignature = new Map<string, TestResultType>();
+    const uniqueResults: TestResultType[] = [];
+
+    for (const result of results) {
+      if (ids.has(result.id)) {
+        continue;
+      }
+
+      ids.add(result.id);
+
+      if (!result.signature) {
+        uniqueResults.push(result);
+        continue;
+      }
+
+      const previous = bySignature.get(result.signature);
+
+      if (!previous) {
+        bySignature.set(result.signature, result);
+        uniqueResults.push(result);
+        continue;
+      }
+
+      if ((result.execution.end_time ?? 0) >= (previous.execution.end_time ?? 0)) {
+        bySignature.set(result.signature, result);
+        uniqueResults.splice(uniqueResults.indexOf(previous), 1, result);
+      }
+    }
+
+    return uniqueResults;
+  }
+
+  /**
+   * @param {TestStepType[]} steps
+   * @returns {TestStepType[]}
+   * @private
+   */
+  private copyStepAttachments(steps: TestStepType[]): TestStepType[] {
+    for (const step of steps) {
+      step.attachments = this.writer.writeAttachment(step.attachments);
+      step.steps = this.copyStepAttachments(step.steps);
+    }
+
+    return steps;
+  }
+}
@@ -1,3 +1,5 @@
+import { CiMetadataType } from '../ci';
+
 export type HostData = {
   system: string
   node: string
@@ -8,4 +10,5 @@ export type HostData = {
   pip: string
   node_version: string
   npm: string
+  ci?: CiMetadataType | undefined
 }
\ No newline at end of file
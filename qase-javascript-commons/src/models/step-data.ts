@@ -1,6 +1,7 @@
 export interface StepTextData {
   action: string;
   expected_result: string | null;
+  input_data?: string | null | undefined;
 }
 
 export interface StepGherkinData {
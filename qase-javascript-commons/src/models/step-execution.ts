@@ -10,6 +10,7 @@ export class StepExecution {
   status: StepStatusEnum;
   end_time: number | null;
   duration: number | null;
+  comment?: string | null | undefined;
 
   constructor() {
     this.status = StepStatusEnum.passed;
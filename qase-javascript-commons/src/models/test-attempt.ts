@@ -0,0 +1,11 @@
+import { Attachment } from './attachment';
+import { TestExecution } from './test-execution';
+
+/**
+ * An earlier run of a test which was retried
+ */
+export type TestAttemptType = {
+  execution: TestExecution;
+  message: string | null;
+  attachments: Attachment[];
+}
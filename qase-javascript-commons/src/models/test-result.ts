@@ -1,6 +1,7 @@
 import { TestStepType } from './test-step';
 import { Attachment } from './attachment';
 import { TestExecution } from './test-execution';
+import { TestAttemptType } from './test-attempt';
 
 export class TestResultType {
   id: string;
@@ -18,6 +19,8 @@ export class TestResultType {
   relations: Relation | null;
   muted: boolean;
   message: string | null;
+  attempts?: TestAttemptType[];
+  issues?: string[];
 
   constructor(title: string) {
     this.id = '';
@@ -4,5 +4,6 @@
 export enum ModeEnum {
   report = 'report',
   testops = 'testops',
+  multi = 'multi',
   off = 'off',
 }
@@ -2,6 +2,8 @@ import { QaseApiOptionsType } from 'qaseio/dist/qaseio';
 
 import { ModeEnum } from './mode-enum';
 
+import { QuarantineOptionsType } from '../quarantine';
+import { ShutdownOptionsType } from '../shutdown';
 import { TestOpsOptionsType } from '../reporters';
 import { DriverEnum, FsWriterOptionsType } from '../writer';
 
@@ -9,6 +11,11 @@ type RecursivePartial<T> = {
   [K in keyof T]?: RecursivePartial<T[K]> | undefined;
 };
 
+/**
+ * Built-in modes or any mode added with `registerMode()`
+ */
+export type ModeType = `${ModeEnum}` | (string & Record<never, never>);
+
 export type AdditionalTestOpsOptionsType = {
   api?: RecursivePartial<QaseApiOptionsType>;
 };
@@ -22,12 +29,16 @@ export type AdditionalReportOptionsType = {
   connections?: ConnectionsType;
 };
 
+export type AdditionalMultiOptionsType = {
+  modes?: ModeType[] | undefined;
+};
+
 export type OptionsType = {
   frameworkPackage: string;
   frameworkName: string;
   reporterName: string;
-  mode?: `${ModeEnum}` | undefined;
-  fallback?: `${ModeEnum}` | undefined;
+  mode?: ModeType | undefined;
+  fallback?: ModeType | undefined;
   captureLogs?: boolean | undefined;
   debug?: boolean | undefined;
   environment?: string | undefined;
@@ -36,6 +47,9 @@ export type OptionsType = {
     | (RecursivePartial<TestOpsOptionsType> & AdditionalTestOpsOptionsType)
     | undefined;
   report?: RecursivePartial<AdditionalReportOptionsType> | undefined;
+  multi?: AdditionalMultiOptionsType | undefined;
+  quarantine?: QuarantineOptionsType | undefined;
+  shutdown?: ShutdownOptionsType | undefined;
 };
 
 export type FrameworkOptionsType<F extends string, O> = {
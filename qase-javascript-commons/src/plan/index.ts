@@ -0,0 +1 @@
+export { TestPlan } from './test-plan';
@@ -0,0 +1,51 @@
+import { QaseApiInterface } from 'qaseio';
+
+import { QaseError } from '../utils/qase-error';
+
+/**
+ * Cases of a Qase test plan, used to run only the tests of the plan
+ *
+ * @class TestPlan
+ */
+export class TestPlan {
+  /**
+   * @param {QaseApiInterface} api
+   * @param {string} projectCode
+   */
+  constructor(
+    private readonly api: QaseApiInterface,
+    private readonly projectCode: string,
+  ) {}
+
+  /**
+   * @param {number} planId
+   * @returns {Promise<number[]>}
+   */
+  public async getCaseIds(planId: number): Promise<number[]> {
+    const { data } = await this.api.plans.getPlan(this.projectCode, planId);
+
+    if (!data.result) {
+      throw new QaseError(`Plan ${planId} not found`);
+    }
+
+    return (data.result.cases ?? [])
+      .map(({ case_id }) => case_id)
+      .filter((id): id is number => id !== undefined);
+  }
+
+  /**
+   * A regular expression matching the titles of the tests marked with any of the case IDs
+   * as `Test title (Qase ID: 1,2)`, for the `grep` options of the test runners
+   *
+   * @param {number[]} caseIds
+   * @returns {string}
+   */
+  public static getGrepPattern(caseIds: number[]): string {
+    if (caseIds.length === 0) {
+      // matches nothing
+      return '$^';
+    }
+
+    return `\\(Qase ID:? ([\\d,]*,)?(${caseIds.join('|')})(,[\\d,]*)?\\)`;
+  }
+}
@@ -0,0 +1 @@
+export { RunProvisioner, type RunProvisionerOptionsType } from './run-provisioner';
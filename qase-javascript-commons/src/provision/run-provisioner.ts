@@ -0,0 +1,150 @@
+import chalk from 'chalk';
+import { ConfigurationGroup, QaseApiInterface } from 'qaseio';
+
+import { LoggerInterface } from '../utils/logger';
+
+export interface RunProvisionerOptionsType {
+  create?: boolean | undefined;
+}
+
+const itemsPerPage = 100;
+
+/**
+ * Resolves the environment, the milestone and the configurations of a new run to their IDs,
+ * creating the missing ones if the `create` option is set
+ *
+ * @class RunProvisioner
+ */
+export class RunProvisioner {
+  private readonly create: boolean;
+
+  /**
+   * @param {LoggerInterface} logger
+   * @param {QaseApiInterface} api
+   * @param {string} projectCode
+   * @param {RunProvisionerOptionsType} options
+   */
+  constructor(
+    private readonly logger: LoggerInterface,
+    private readonly api: QaseApiInterface,
+    private readonly projectCode: string,
+    options: RunProvisionerOptionsType = {},
+  ) {
+    this.create = options.create ?? false;
+  }
+
+  /**
+   * @param {string} slug
+   * @returns {Promise<number | undefined>}
+   */
+  public async getEnvironmentId(slug: string): Promise<number | undefined> {
+    const { data } = await this.api.environment.getEnvironments(this.projectCode, undefined, slug, itemsPerPage);
+    const environment = data.result?.entities?.find((environment) => environment.slug === slug);
+
+    if (environment?.id !== undefined) {
+      return environment.id;
+    }
+
+    if (!this.create) {
+      this.logNotFound(`Environment "${slug}"`);
+      return undefined;
+    }
+
+    const { data: created } = await this.api.environment.createEnvironment(this.projectCode, { title: slug, slug });
+    this.logger.logDebug(`Environment created: ${slug}`);
+
+    return created.result?.id;
+  }
+
+  /**
+   * @param {string} title
+   * @returns {Promise<number | undefined>}
+   */
+  public async getMilestoneId(title: string): Promise<number | undefined> {
+    const { data } = await this.api.milestones.getMilestones(this.projectCode, title, itemsPerPage);
+    const milestone = data.result?.entities?.find((milestone) => milestone.title === title);
+
+    if (milestone?.id !== undefined) {
+      return milestone.id;
+    }
+
+    if (!this.create) {
+      this.logNotFound(`Milestone "${title}"`);
+      return undefined;
+    }
+
+    const { data: created } = await this.api.milestones.createMilestone(this.projectCode, { title });
+    this.logger.logDebug(`Milestone created: ${title}`);
+
+    return created.result?.id;
+  }
+
+  /**
+   * @param {Record<string, string | undefined>} configurations values keyed by the title of their group
+   * @returns {Promise<number[]>}
+   */
+  public async getConfigurationIds(configurations: Record<string, string | undefined>): Promise<number[]> {
+    const { data } = await this.api.configurations.getConfigurations(this.projectCode);
+    const groups = data.result?.entities ?? [];
+    const ids: number[] = [];
+
+    for (const [groupTitle, title] of Object.entries(configurations)) {
+      if (title === undefined) {
+        continue;
+      }
+
+      const group = groups.find((group) => group.title === groupTitle);
+      const configuration = group?.configurations?.find((configuration) => configuration.title === title);
+
+      if (configuration?.id !== undefined) {
+        ids.push(configuration.id);
+        continue;
+      }
+
+      if (!this.create) {
+        this.logNotFound(`Configuration "${groupTitle}: ${title}"`);
+        continue;
+      }
+
+      const groupId = group?.id ?? await this.createConfigurationGroup(groupTitle, groups);
+      const { data: created } = await this.api.configurations.createConfiguration(
+        this.projectCode,
+        { title, group_id: groupId },
+      );
+
+      if (created.result?.id !== undefined) {
+        ids.push(created.result.id);
+        this.logger.logDebug(`Configuration created: ${groupTitle}: ${title}`);
+      }
+    }
+
+    return ids;
+  }
+
+  /**
+   * @param {string} title
+   * @param {ConfigurationGroup[]} groups the known groups, the created one is added to them
+   * @returns {Promise<number>}
+   * @private
+   */
+  private async createConfigurationGroup(title: string, groups: ConfigurationGroup[]): Promise<number> {
+    const { data } = await this.api.configurations.createConfigurationGroup(this.projectCode, { title });
+
+    if (data.result?.id === undefined) {
+      throw new Error(`Cannot create configuration group "${title}".`);
+    }
+
+    groups.push({ id: data.result.id, title, configurations: [] });
+    this.logger.logDebug(`Configuration group created: ${title}`);
+
+    return data.result.id;
+  }
+
+  /**
+   * @param {string} entity
+   * @private
+   */
+  private logNotFound(entity: string): void {
+    this.logger.log(chalk`{yellow ${entity} not found in project ${this.projectCode}, it is not set on the run}`);
+  }
+}
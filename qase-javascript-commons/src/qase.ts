@@ -5,14 +5,20 @@ import chalk from 'chalk';
 import { QaseApi } from 'qaseio';
 
 import {
+  getModeFactory,
+  getModes,
+  hasMode,
   InternalReporterInterface,
+  MultiReporter,
+  MultiReporterDestinationType,
   TestOpsReporter,
   ReportReporter,
 } from './reporters';
-import { composeOptions, ModeEnum, OptionsType } from './options';
+import { composeOptions, ModeEnum, ModeType, OptionsType } from './options';
 import {
   EnvApiEnum,
   EnvEnum,
+  EnvMultiEnum,
   EnvRunEnum,
   EnvTestOpsEnum,
   envToConfig,
@@ -20,11 +26,16 @@ import {
 } from './env';
 import { TestStatusEnum, TestResultType } from './models';
 import { DriverEnum, FsWriter } from './writer';
+import { Quarantine } from './quarantine';
+import { ShutdownHandler } from './shutdown';
 
 import { getPackageVersion } from './utils/get-package-version';
+import { formatRunTemplate, getRunTemplateValues } from './utils/format-run-template';
 import { CustomBoundaryFormData } from './utils/custom-boundary';
 import { DisabledException } from './utils/disabled-exception';
 import { Logger, LoggerInterface } from './utils/logger';
+import { QaseError } from './utils/qase-error';
+import { RetryCollector } from './utils/retry-collector';
 import { StateManager, StateModel } from './state/state';
 import { ConfigType } from './config';
 
@@ -40,9 +51,19 @@ const resultLogMap: Record<TestStatusEnum, (test: TestResultType) => string> = {
   [TestStatusEnum.invalid]: (test) => chalk`{yellowBright Test ${test.title} ${test.execution.status}}`,
 };
 
+/**
+ * Failures of the reported tests, the muted ones don't fail the build
+ */
+export interface FailureStatsType {
+  failed: number;
+  muted: number;
+}
+
 export interface ReporterInterface {
   addTestResult(result: TestResultType): Promise<void>;
 
+  addTestAttempt(result: TestResultType): void;
+
   publish(): Promise<void>;
 
   startTestRun(): void;
@@ -54,6 +75,8 @@ export interface ReporterInterface {
   sendResults(): Promise<void>;
 
   complete(): Promise<void>;
+
+  getFailureStats(): FailureStatsType;
 }
 
 /**
@@ -109,6 +132,116 @@ export class QaseReporter implements ReporterInterface {
     };
   }
 
+  /**
+   * Creates the TestOps reporter the same way the "testops" mode does,
+   * so that the CLI commands can publish results without running tests
+   *
+   * @param {OptionsType} options
+   * @param {LoggerInterface} logger
+   * @returns {TestOpsReporter}
+   */
+  public static createTestOpsReporter(
+    options: OptionsType,
+    logger: LoggerInterface,
+  ): TestOpsReporter {
+    const {
+      frameworkPackage,
+      frameworkName,
+      reporterName,
+      environment,
+      rootSuite,
+      testops = {},
+    } = options;
+
+    const {
+      api: {
+        token,
+        headers,
+        ...api
+      } = {},
+      project,
+      run: {
+        title,
+        description,
+        tags,
+        customFields,
+        ...run
+      } = {},
+      plan = {},
+      batch = {},
+      useV2,
+      defect,
+      uploadAttachments,
+      spool,
+      attachments,
+      flaky,
+      caseSync,
+      defects,
+      issues,
+      quarantine,
+    } = testops;
+
+    if (!token) {
+      throw new Error(
+        `Either "testops.api.token" parameter or "${EnvApiEnum.token}" environment variable is required in "testops" mode`,
+      );
+    }
+
+    if (!project) {
+      throw new Error(
+        `Either "testops.project" parameter or "${EnvTestOpsEnum.project}" environment variable is required in "testops" mode`,
+      );
+    }
+
+    const apiClient = new QaseApi({
+      token,
+      headers: {
+        ...headers,
+        ...QaseReporter.createHeaders(
+          frameworkPackage,
+          frameworkName,
+          reporterName,
+        ),
+      },
+      ...api,
+    }, CustomBoundaryFormData);
+
+    const templateValues = getRunTemplateValues({ framework: frameworkName, environment });
+    const format = (template: string) => formatRunTemplate(template, templateValues);
+
+    return new TestOpsReporter(
+      logger,
+      {
+        project,
+        uploadAttachments,
+        run: {
+          title: format(title ?? 'Automated run {date}'),
+          description: format(description ?? `${reporterName} automated run`),
+          tags: tags?.filter((tag): tag is string => tag !== undefined).map(format),
+          customFields: customFields && Object.fromEntries(
+            Object.entries(customFields).map(([id, value]) => [id, value && format(value)]),
+          ),
+          ...run,
+        },
+        plan,
+        batch,
+        useV2,
+        defect,
+        spool,
+        attachments,
+        flaky,
+        caseSync,
+        defects,
+        issues,
+        quarantine,
+      },
+      apiClient,
+      environment,
+      rootSuite,
+      api.host,
+    );
+  }
+
   /**
    * @type {InternalReporterInterface}
    * @private
@@ -139,10 +272,39 @@ export class QaseReporter implements ReporterInterface {
    */
   private useFallback = false;
 
+  /**
+   * @type {RetryCollector}
+   * @private
+   */
+  private readonly retryCollector = new RetryCollector();
+
+  /**
+   * @type {Quarantine}
+   * @private
+   */
+  private readonly quarantine: Quarantine;
+
+  /**
+   * Failed results, which may be muted later by the upstream reporter
+   * @type {TestResultType[]}
+   * @private
+   */
+  private readonly failures: TestResultType[] = [];
+
   private readonly logger: LoggerInterface;
 
   private startTestRunOperation?: Promise<void> | undefined;
 
+  private publishOperation?: Promise<void> | undefined;
+
+  private interruptOperation?: Promise<void> | undefined;
+
+  /**
+   * @type {ShutdownHandler | undefined}
+   * @private
+   */
+  private readonly shutdownHandler?: ShutdownHandler | undefined;
+
   private options: ConfigType & OptionsType;
 
   /**
@@ -164,15 +326,19 @@ export class QaseReporter implements ReporterInterface {
     const composedOptions = composeOptions(options, env);
     this.options = composedOptions;
 
+    QaseReporter.validateModes(composedOptions);
+
     this.logger = new Logger({ debug: composedOptions.debug });
+    StateManager.setLogger(this.logger);
     this.logger.logDebug(`Config: ${JSON.stringify(composedOptions)}`);
 
+    this.quarantine = new Quarantine(this.logger, composedOptions.quarantine);
+
     this.captureLogs = composedOptions.captureLogs;
 
     try {
       this.upstreamReporter = this.createReporter(
-        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-        composedOptions.mode as ModeEnum || ModeEnum.off,
+        composedOptions.mode ?? ModeEnum.off,
         composedOptions,
       );
     } catch (error) {
@@ -192,8 +358,7 @@ export class QaseReporter implements ReporterInterface {
 
     try {
       this.fallbackReporter = this.createReporter(
-        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-        composedOptions.fallback as ModeEnum || ModeEnum.off,
+        composedOptions.fallback ?? ModeEnum.off,
         composedOptions,
       );
     } catch (error) {
@@ -210,31 +375,45 @@ export class QaseReporter implements ReporterInterface {
       }
     }
 
-    if (!StateManager.isStateExists()) {
-      const state: StateModel = {
-        RunId: undefined,
-        Mode: this.useFallback ? composedOptions.fallback as ModeEnum : composedOptions.mode as ModeEnum,
-        IsModeChanged: undefined,
-      };
+    const state: StateModel = {
+      RunId: undefined,
+      Mode: this.useFallback ? composedOptions.fallback : composedOptions.mode,
+      IsModeChanged: undefined,
+    };
 
-      if (this.disabled) {
-        state.Mode = ModeEnum.off;
-      }
+    if (this.disabled) {
+      state.Mode = ModeEnum.off;
+    }
+
+    // the first reporter of the session creates the state, e.g. before the workers are started
+    StateManager.initState(state);
 
-      StateManager.setState(state);
+    // the listeners change how the test framework handles the signals and the crashes, so they are opt-in
+    if (!this.disabled && composedOptions.shutdown?.enabled === true) {
+      this.shutdownHandler = new ShutdownHandler(
+        this.logger,
+        (reason) => this.interrupt(reason),
+        composedOptions.shutdown.timeout,
+      );
+      this.shutdownHandler.register();
     }
   }
 
+  /**
+   * The results stay in the reporter to be sent. The pending attempts of the retried tests are included,
+   * and are reported only on publish.
+   *
+   * @returns {TestResultType[]}
+   */
   getResults(): TestResultType[] {
     if (this.disabled) {
       return [];
     }
 
-    if (this.useFallback) {
-      return this.fallbackReporter?.getTestResults() ?? [];
-    }
+    const pending = this.retryCollector.getPending();
+    const reporter = this.useFallback ? this.fallbackReporter : this.upstreamReporter;
 
-    return this.upstreamReporter?.getTestResults() ?? [];
+    return [...QaseReporter.peekResults(reporter), ...pending];
   }
 
   setTestResults(results: TestResultType[]): void {
@@ -254,6 +433,8 @@ export class QaseReporter implements ReporterInterface {
       return;
     }
 
+    await this.addPendingAttempts();
+
     try {
       await this.upstreamReporter?.sendResults();
     } catch (error) {
@@ -271,7 +452,7 @@ export class QaseReporter implements ReporterInterface {
 
       try {
         await this.fallbackReporter?.sendResults();
-        StateManager.setMode(this.options.fallback as ModeEnum);
+        StateManager.setMode(this.options.fallback);
       } catch (error) {
         this.logger.logError('Unable to send the results to the fallback reporter:', error);
         StateManager.setMode(ModeEnum.off);
@@ -280,6 +461,21 @@ export class QaseReporter implements ReporterInterface {
   }
 
   async complete(): Promise<void> {
+    if (this.interruptOperation) {
+      await this.interruptOperation;
+      return;
+    }
+
+    this.publishOperation = this.completeReporters();
+    await this.publishOperation;
+    this.shutdownHandler?.dispose();
+  }
+
+  /**
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async completeReporters(): Promise<void> {
     StateManager.clearState();
     if (this.disabled) {
       return;
@@ -328,7 +524,7 @@ export class QaseReporter implements ReporterInterface {
 
         try {
           this.startTestRunOperation = this.fallbackReporter?.startTestRun();
-          StateManager.setMode(this.options.fallback as ModeEnum);
+          StateManager.setMode(this.options.fallback);
         } catch (error) {
           this.logger.logError('Unable to start test run in the fallback reporter: ', error);
           this.disabled = true;
@@ -355,6 +551,19 @@ export class QaseReporter implements ReporterInterface {
     return QaseReporter.instance;
   }
 
+  /**
+   * Keeps the result of an attempt which is going to be retried.
+   * It is attached to the final result of the test.
+   *
+   * @param {TestResultType} result
+   */
+  public addTestAttempt(result: TestResultType): void {
+    if (!this.disabled) {
+      this.logger.logDebug(`Test ${result.title} is going to be retried`);
+      this.retryCollector.addAttempt(result);
+    }
+  }
+
   /**
    * @param {TestResultType} result
    */
@@ -362,6 +571,14 @@ export class QaseReporter implements ReporterInterface {
     if (!this.disabled) {
       await this.startTestRunOperation;
 
+      result = this.retryCollector.complete(result);
+
+      this.quarantine.apply(result);
+
+      if (Quarantine.isFailure(result)) {
+        this.failures.push(result);
+      }
+
       this.logTestItem(result);
 
       if (this.useFallback) {
@@ -390,6 +607,29 @@ export class QaseReporter implements ReporterInterface {
     }
   }
 
+  /**
+   * Call after `publish()` to count the failures muted by the upstream reporter too
+   *
+   * @returns {FailureStatsType}
+   */
+  public getFailureStats(): FailureStatsType {
+    const muted = this.failures.filter((result) => result.muted).length;
+
+    return { failed: this.failures.length - muted, muted };
+  }
+
+  /**
+   * Reports the last attempts of the tests which were retried but never finished
+   *
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async addPendingAttempts(): Promise<void> {
+    for (const result of this.retryCollector.flush()) {
+      await this.addTestResult(result);
+    }
+  }
+
   /**
    * @param {TestResultType} result
    * @private
@@ -397,7 +637,7 @@ export class QaseReporter implements ReporterInterface {
   private async addTestResultToFallback(result: TestResultType): Promise<void> {
     try {
       await this.fallbackReporter?.addTestResult(result);
-      StateManager.setMode(this.options.fallback as ModeEnum);
+      StateManager.setMode(this.options.fallback);
     } catch (error) {
       this.logger.logError('Unable to add the result to the fallback reporter:', error);
       this.disabled = true;
@@ -416,12 +656,29 @@ export class QaseReporter implements ReporterInterface {
    * @returns {Promise<void>}
    */
   public async publish(): Promise<void> {
+    if (this.interruptOperation) {
+      await this.interruptOperation;
+      return;
+    }
+
+    this.publishOperation = this.publishReporters();
+    await this.publishOperation;
+    this.shutdownHandler?.dispose();
+  }
+
+  /**
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async publishReporters(): Promise<void> {
     if (!this.disabled) {
 
       await this.startTestRunOperation;
 
       this.logger.logDebug('Publishing test run results');
 
+      await this.addPendingAttempts();
+
       if (this.useFallback) {
         await this.publishFallback();
       }
@@ -448,13 +705,86 @@ export class QaseReporter implements ReporterInterface {
     StateManager.clearState();
   }
 
+  /**
+   * Publishes the results reported so far when the test process is interrupted
+   *
+   * @param {string} reason
+   * @returns {Promise<void>}
+   * @private
+   */
+  private interrupt(reason: string): Promise<void> {
+    // the results are being published already
+    this.interruptOperation ??= this.publishOperation ?? this.publishInterrupted(reason);
+
+    return this.interruptOperation;
+  }
+
+  /**
+   * @param {string} reason
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async publishInterrupted(reason: string): Promise<void> {
+    if (this.disabled) {
+      return;
+    }
+
+    this.logger.log(chalk`{yellow Tests are interrupted by ${reason}, publishing the results reported so far}`);
+
+    await this.startTestRunOperation;
+    await this.addPendingAttempts();
+
+    const reporter = this.useFallback ? this.fallbackReporter : this.upstreamReporter;
+    // the reporter keeps the results to publish them
+    const results = QaseReporter.peekResults(reporter);
+    const completeRun = this.options.shutdown?.completeRun ?? false;
+
+    try {
+      await (reporter?.interrupt ? reporter.interrupt(completeRun) : reporter?.publish());
+    } catch (error) {
+      this.logger.logError('Unable to publish the results of the interrupted tests:', error);
+    }
+
+    if (this.options.shutdown?.report ?? true) {
+      await this.writeInterruptedReport(results);
+    }
+
+    StateManager.clearState();
+  }
+
+  /**
+   * Writes the results to the local report, unless the reporter has written it already
+   *
+   * @param {TestResultType[]} results
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async writeInterruptedReport(results: TestResultType[]): Promise<void> {
+    const mode = this.useFallback ? this.options.fallback : this.options.mode;
+    const modes = mode === ModeEnum.multi ? this.options.multi?.modes ?? [] : [mode];
+
+    if (results.length === 0 || modes.includes(ModeEnum.report)) {
+      return;
+    }
+
+    try {
+      const reporter = this.createReporter(ModeEnum.report, this.options);
+
+      await reporter.startTestRun();
+      reporter.setTestResults(results);
+      await reporter.publish();
+    } catch (error) {
+      this.logger.logError('Unable to write the report of the interrupted tests:', error);
+    }
+  }
+
   /**
    * @returns {Promise<void>}
    */
   private async publishFallback(): Promise<void> {
     try {
       await this.fallbackReporter?.publish();
-      StateManager.setMode(this.options.fallback as ModeEnum);
+      StateManager.setMode(this.options.fallback);
     } catch (error) {
       StateManager.setMode(ModeEnum.off);
       this.logger.logError('Unable to publish the run results to the fallback reporter:', error);
@@ -463,20 +793,62 @@ export class QaseReporter implements ReporterInterface {
   }
 
   /**
-   * @todo implement mode registry
-   * @param {ModeEnum} mode
+   * Reads the results of the reporter, which keeps them to send
+   *
+   * @param {InternalReporterInterface | undefined} reporter
+   * @returns {TestResultType[]}
+   * @private
+   */
+  private static peekResults(reporter: InternalReporterInterface | undefined): TestResultType[] {
+    if (reporter === undefined) {
+      return [];
+    }
+
+    if (reporter.peekTestResults) {
+      return reporter.peekTestResults();
+    }
+
+    // the custom reporters may not have the method
+    const results = reporter.getTestResults();
+
+    reporter.setTestResults(results);
+
+    return [...results];
+  }
+
+  /**
+   * The custom modes are registered by then, so the modes are checked here rather than by the config schema
+   *
+   * @param {OptionsType} options
+   * @private
+   */
+  private static validateModes(options: OptionsType): void {
+    const parameters: [string, string, string | undefined][] = [
+      ['mode', EnvEnum.mode, options.mode],
+      ['fallback', EnvEnum.fallback, options.fallback],
+      ...(options.multi?.modes ?? []).map((mode): [string, string, string] => ['multi.modes', EnvMultiEnum.modes, mode]),
+    ];
+
+    for (const [parameter, envName, mode] of parameters) {
+      if (mode !== undefined && !hasMode(mode)) {
+        throw new QaseError(
+          `Unknown mode "${mode}" in "${parameter}" parameter or "${envName}" environment variable. Available modes: ${getModes().join(', ')}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * @param {ModeType} mode
    * @param {OptionsType} options
    * @returns {InternalReporterInterface}
    * @private
    */
   private createReporter(
-    mode: ModeEnum,
+    mode: ModeType,
     options: OptionsType,
   ): InternalReporterInterface {
     const {
-      frameworkPackage,
-      frameworkName,
-      reporterName,
       environment,
       rootSuite,
       report = {},
@@ -484,72 +856,8 @@ export class QaseReporter implements ReporterInterface {
     } = options;
 
     switch (mode) {
-      case ModeEnum.testops: {
-        const {
-          api: {
-            token,
-            headers,
-            ...api
-          } = {},
-          project,
-          run: {
-            title,
-            description,
-            ...run
-          } = {},
-          plan = {},
-          batch = {},
-          useV2,
-          defect,
-          uploadAttachments,
-        } = testops;
-
-        if (!token) {
-          throw new Error(
-            `Either "testops.api.token" parameter or "${EnvApiEnum.token}" environment variable is required in "testops" mode`,
-          );
-        }
-
-        if (!project) {
-          throw new Error(
-            `Either "testops.project" parameter or "${EnvTestOpsEnum.project}" environment variable is required in "testops" mode`,
-          );
-        }
-
-        const apiClient = new QaseApi({
-          token,
-          headers: {
-            ...headers,
-            ...QaseReporter.createHeaders(
-              frameworkPackage,
-              frameworkName,
-              reporterName,
-            ),
-          },
-          ...api,
-        }, CustomBoundaryFormData);
-
-        return new TestOpsReporter(
-          this.logger,
-          {
-            project,
-            uploadAttachments,
-            run: {
-              title: title ?? `Automated run ${new Date().toISOString()}`,
-              description: description ?? `${reporterName} automated run`,
-              ...run,
-            },
-            plan,
-            batch,
-            useV2,
-            defect,
-          },
-          apiClient,
-          environment,
-          rootSuite,
-          api.host,
-        );
-      }
+      case ModeEnum.testops:
+        return QaseReporter.createTestOpsReporter(options, this.logger);
 
       case ModeEnum.report: {
         const localOptions = report.connections?.[DriverEnum.local];
@@ -563,11 +871,50 @@ export class QaseReporter implements ReporterInterface {
           testops.run?.id);
       }
 
+      case ModeEnum.multi: {
+        const destinations: MultiReporterDestinationType[] = [];
+
+        for (const destinationMode of options.multi?.modes ?? []) {
+          if (destinationMode === ModeEnum.multi) {
+            this.logger.logError(`Mode "${ModeEnum.multi}" cannot be used as a destination of itself`);
+            continue;
+          }
+
+          try {
+            destinations.push({
+              mode: destinationMode,
+              reporter: this.createReporter(destinationMode, options),
+            });
+          } catch (error) {
+            if (!(error instanceof DisabledException)) {
+              this.logger.logError(`Unable to create the "${destinationMode}" reporter:`, error);
+            }
+          }
+        }
+
+        if (destinations.length === 0) {
+          throw new Error(
+            `At least one reporter is required in "multi.modes" parameter or "${EnvMultiEnum.modes}" environment variable in "multi" mode`,
+          );
+        }
+
+        return new MultiReporter(this.logger, destinations);
+      }
+
       case ModeEnum.off:
         throw new DisabledException();
 
-      default:
-        throw new Error(`Unknown mode type`);
+      default: {
+        const factory = getModeFactory(mode);
+
+        if (!factory) {
+          throw new Error(
+            `Unknown mode type "${mode}". Available modes: ${getModes().join(', ')}`,
+          );
+        }
+
+        return factory(options, this.logger);
+      }
     }
   }
 
@@ -576,6 +923,8 @@ export class QaseReporter implements ReporterInterface {
    * @private
    */
   private logTestItem(test: TestResultType) {
-    this.logger.log(resultLogMap[test.execution.status](test));
+    const message = resultLogMap[test.execution.status](test);
+
+    this.logger.log(test.muted ? chalk`${message} {grey (muted)}` : message);
   }
 }
@@ -0,0 +1 @@
+export { Quarantine, type QuarantineOptionsType } from './quarantine';
@@ -0,0 +1,104 @@
+import { existsSync, readFileSync } from 'fs';
+
+import { TestResultType, TestStatusEnum } from '../models';
+import { LoggerInterface } from '../utils/logger';
+
+export interface QuarantineOptionsType {
+  ids?: number[] | undefined;
+  signatures?: string[] | undefined;
+  path?: string | undefined;
+}
+
+interface QuarantineFileType {
+  ids?: number[];
+  signatures?: string[];
+}
+
+const failedStatuses: string[] = [TestStatusEnum.failed, TestStatusEnum.invalid];
+
+/**
+ * Mutes the failures of the quarantined tests, listed by case ID or signature
+ * in the options or in a JSON file with the same `ids` and `signatures` lists
+ *
+ * @class Quarantine
+ */
+export class Quarantine {
+  private readonly ids: Set<number>;
+  private readonly signatures: Set<string>;
+
+  /**
+   * @param {LoggerInterface} logger
+   * @param {QuarantineOptionsType} options
+   */
+  constructor(
+    private readonly logger: LoggerInterface,
+    options: QuarantineOptionsType = {},
+  ) {
+    const file = options.path ? this.readFile(options.path) : {};
+
+    this.ids = new Set([...options.ids ?? [], ...file.ids ?? []].filter((id) => !isNaN(id)));
+    this.signatures = new Set([...options.signatures ?? [], ...file.signatures ?? []]);
+  }
+
+  /**
+   * @param {TestResultType} result
+   * @returns {boolean}
+   */
+  public static isFailure(result: TestResultType): boolean {
+    return failedStatuses.includes(result.execution.status);
+  }
+
+  /**
+   * Marks the result as muted, if it is a failure of a quarantined test
+   *
+   * @param {TestResultType} result
+   * @param {string} reason
+   * @returns {boolean} whether the result was muted
+   */
+  public static mute(result: TestResultType, reason: string): boolean {
+    if (result.muted || !Quarantine.isFailure(result)) {
+      return false;
+    }
+
+    result.muted = true;
+    result.message = [`Quarantined test, the failure is muted: ${reason}`, result.message]
+      .filter(Boolean)
+      .join('\n\n');
+
+    return true;
+  }
+
+  /**
+   * @param {TestResultType} result
+   * @returns {boolean} whether the result was muted
+   */
+  public apply(result: TestResultType): boolean {
+    if (this.signatures.has(result.signature)) {
+      return Quarantine.mute(result, `signature ${result.signature}`);
+    }
+
+    const ids = Array.isArray(result.testops_id) ? result.testops_id : [result.testops_id];
+    const id = ids.find((id) => id !== null && this.ids.has(id));
+
+    return id !== undefined && id !== null && Quarantine.mute(result, `case ${id}`);
+  }
+
+  /**
+   * @param {string} filePath
+   * @returns {QuarantineFileType}
+   * @private
+   */
+  private readFile(filePath: string): QuarantineFileType {
+    if (!existsSync(filePath)) {
+      this.logger.logError(`Quarantine file ${filePath} not found`);
+      return {};
+    }
+
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf8')) as QuarantineFileType;
+    } catch (error) {
+      this.logger.logError(`Unable to read the quarantine file ${filePath}:`, error);
+      return {};
+    }
+  }
+}
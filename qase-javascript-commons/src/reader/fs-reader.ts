@@ -0,0 +1,112 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import * as path from 'path';
+
+import { Attachment, Report, TestResultType, TestStepType } from '../models';
+import { FormatEnum } from '../writer';
+import { QaseError } from '../utils/qase-error';
+
+const jsonpRegexp = /^\s*qaseJsonp\(([\s\S]*)\);?\s*$/;
+
+/**
+ * Reads a report directory written by `FsWriter`
+ *
+ * @class FsReader
+ */
+export class FsReader {
+  /**
+   * @param {string} reportPath
+   */
+  constructor(private readonly reportPath: string) {}
+
+  /**
+   * @returns {Report | undefined}
+   */
+  readReport(): Report | undefined {
+    for (const format of Object.values(FormatEnum)) {
+      const filePath = path.join(this.reportPath, `report.${format}`);
+
+      if (existsSync(filePath)) {
+        return this.readFile<Report>(filePath);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * @returns {TestResultType[]}
+   */
+  readTestResults(): TestResultType[] {
+    const resultsPath = path.join(this.reportPath, 'results');
+
+    if (!existsSync(resultsPath)) {
+      throw new QaseError(`Results not found in ${this.reportPath}`);
+    }
+
+    return readdirSync(resultsPath)
+      .filter((file) => file.endsWith(`.${FormatEnum.json}`) || file.endsWith(`.${FormatEnum.jsonp}`))
+      .sort()
+      .map((file) => {
+        const result = this.readFile<TestResultType>(path.join(resultsPath, file));
+
+        result.attachments = this.resolveAttachments(result.attachments);
+        result.steps = this.resolveStepAttachments(result.steps);
+
+        return result;
+      });
+  }
+
+  /**
+   * The paths of the attachments are relative to the directory the tests were run from.
+   * If the report was moved, look for the files in the report directory.
+   *
+   * @param {Attachment[]} attachments
+   * @returns {Attachment[]}
+   * @private
+   */
+  private resolveAttachments(attachments: Attachment[]): Attachment[] {
+    for (const attachment of attachments) {
+      if (attachment.file_path && !existsSync(attachment.file_path)) {
+        const movedPath = path.join(this.reportPath, 'attachments', path.basename(attachment.file_path));
+
+        if (existsSync(movedPath)) {
+          attachment.file_path = movedPath;
+        }
+      }
+    }
+
+    return attachments;
+  }
+
+  /**
+   * @param {TestStepType[]} steps
+   * @returns {TestStepType[]}
+   * @private
+   */
+  private resolveStepAttachments(steps: TestStepType[]): TestStepType[] {
+    for (const step of steps) {
+      step.attachments = this.resolveAttachments(step.attachments);
+      step.steps = this.resolveStepAttachments(step.steps);
+    }
+
+    return steps;
+  }
+
+  /**
+   * @param {string} filePath
+   * @returns {T}
+   * @private
+   */
+  private readFile<T>(filePath: string): T {
+    const content = readFileSync(filePath, 'utf8');
+    const json = filePath.endsWith(`.${FormatEnum.jsonp}`)
+      ? content.replace(jsonpRegexp, '$1')
+      : content;
+
+    try {
+      return JSON.parse(json) as T;
+    } catch (error) {
+      throw new QaseError(`Cannot parse ${filePath}`, { cause: error });
+    }
+  }
+}
@@ -0,0 +1 @@
+export { FsReader } from './fs-reader';
@@ -11,11 +11,21 @@ export interface InternalReporterInterface {
 
   getTestResults(): TestResultType[];
 
+  /**
+   * Returns the results without taking them from the reporter
+   */
+  peekTestResults?(): TestResultType[];
+
   setTestResults(results: TestResultType[]): void;
 
   sendResults(): Promise<void>;
 
   complete(): Promise<void>;
+
+  /**
+   * Publishes the results of the interrupted tests, the reporters without it publish them as usual
+   */
+  interrupt?(completeRun: boolean): Promise<void>;
 }
 
 /**
@@ -75,6 +85,13 @@ export abstract class AbstractReporter implements InternalReporterInterface {
     return results;
   }
 
+  /**
+   * @returns {TestResultType[]} the results, which stay in the reporter
+   */
+  public peekTestResults(): TestResultType[] {
+    return [...this.results];
+  }
+
   /**
    * @param {TestResultType} result
    */
@@ -3,4 +3,21 @@ export {
   type InternalReporterInterface,
 } from './abstract-reporter';
 export { ReportReporter } from './report-reporter';
-export { TestOpsReporter, type TestOpsOptionsType } from './testops-reporter';
+export { MultiReporter, type MultiReporterDestinationType } from './multi-reporter';
+export {
+  TestOpsReporter,
+  type TestOpsOptionsType,
+  type TestOpsSpoolType,
+  type TestOpsFlakyType,
+  type TestOpsCaseSyncType,
+  type TestOpsDefectsType,
+  type TestOpsQuarantineType,
+} from './testops-reporter';
+export {
+  registerMode,
+  unregisterMode,
+  getModeFactory,
+  hasMode,
+  getModes,
+  type ReporterFactoryType,
+} from './mode-registry';
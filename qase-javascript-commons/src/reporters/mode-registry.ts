@@ -0,0 +1,73 @@
+import { InternalReporterInterface } from './abstract-reporter';
+
+import { ModeEnum, OptionsType } from '../options';
+import { LoggerInterface } from '../utils/logger';
+import { QaseError } from '../utils/qase-error';
+
+export type ReporterFactoryType = (
+  options: OptionsType,
+  logger: LoggerInterface,
+) => InternalReporterInterface;
+
+/**
+ * Factories of the reporters which can be used as `mode` or `fallback`
+ * in addition to the built-in modes
+ *
+ * @type {Map<string, ReporterFactoryType>}
+ */
+const factories = new Map<string, ReporterFactoryType>();
+
+/**
+ * @param {string} mode
+ * @returns {boolean}
+ */
+const isBuiltInMode = (mode: string): boolean => Object.values<string>(ModeEnum).includes(mode);
+
+/**
+ * @param {string} mode
+ * @param {ReporterFactoryType} factory
+ * @example
+ * registerMode('s3', (options, logger) => new S3Reporter(logger, options));
+ */
+export function registerMode(mode: string, factory: ReporterFactoryType): void {
+  if (isBuiltInMode(mode)) {
+    throw new QaseError(`Mode "${mode}" is built-in and cannot be registered`);
+  }
+
+  if (factories.has(mode)) {
+    throw new QaseError(`Mode "${mode}" is already registered`);
+  }
+
+  factories.set(mode, factory);
+}
+
+/**
+ * @param {string} mode
+ * @returns {boolean}
+ */
+export function unregisterMode(mode: string): boolean {
+  return factories.delete(mode);
+}
+
+/**
+ * @param {string} mode
+ * @returns {ReporterFactoryType | undefined}
+ */
+export function getModeFactory(mode: string): ReporterFactoryType | undefined {
+  return factories.get(mode);
+}
+
+/**
+ * @param {string} mode
+ * @returns {boolean}
+ */
+export function hasMode(mode: string): boolean {
+  return isBuiltInMode(mode) || factories.has(mode);
+}
+
+/**
+ * @returns {string[]}
+ */
+export function getModes(): string[] {
+  return [...Object.values<string>(ModeEnum), ...factories.keys()];
+}
@@ -0,0 +1,257 @@
+import chalk from 'chalk';
+import merge from 'lodash.merge';
+
+import { InternalReporterInterface } from './abstract-reporter';
+
+import { TestResultType } from '../models';
+import { ModeType } from '../options';
+import { Quarantine } from '../quarantine';
+import { LoggerInterface } from '../utils/logger';
+import { QaseError } from '../utils/qase-error';
+
+export interface MultiReporterDestinationType {
+  mode: ModeType;
+  reporter: InternalReporterInterface;
+}
+
+interface DestinationStateType extends MultiReporterDestinationType {
+  // whether the last call to the reporter has failed
+  failed: boolean;
+  failures: number;
+}
+
+interface FailureCopiesType {
+  result: TestResultType;
+  copies: TestResultType[];
+}
+
+/**
+ * Sends the results to several reporters at once.
+ * A failure of one destination doesn't affect the others, and the failed destination
+ * is called again with the next results. The reporter throws only when all destinations fail the same call.
+ *
+ * @class MultiReporter
+ * @implements InternalReporterInterface
+ */
+export class MultiReporter implements InternalReporterInterface {
+  /**
+   * @type {DestinationStateType[]}
+   * @private
+   */
+  private readonly destinations: DestinationStateType[];
+
+  /**
+   * Failed results with the copies given to the destinations, a destination may mute its copy
+   * @type {FailureCopiesType[]}
+   * @private
+   */
+  private failures: FailureCopiesType[] = [];
+
+  /**
+   * @param {LoggerInterface} logger
+   * @param {MultiReporterDestinationType[]} destinations
+   */
+  constructor(
+    private readonly logger: LoggerInterface,
+    destinations: MultiReporterDestinationType[],
+  ) {
+    this.destinations = destinations.map((destination) => ({
+      ...destination,
+      failed: false,
+      failures: 0,
+    }));
+  }
+
+  /**
+   * @returns {Record<string, boolean>}
+   */
+  public getDestinationStatuses(): Record<string, boolean> {
+    const statuses: Record<string, boolean> = {};
+
+    for (const destination of this.destinations) {
+      statuses[destination.mode] = !destination.failed;
+    }
+
+    return statuses;
+  }
+
+  /**
+   * @returns {Promise<void>}
+   */
+  public async startTestRun(): Promise<void> {
+    await this.forEachDestination('start test run in', (reporter) => reporter.startTestRun());
+  }
+
+  /**
+   * @param {TestResultType} result
+   * @returns {Promise<void>}
+   */
+  public async addTestResult(result: TestResultType): Promise<void> {
+    const copies: TestResultType[] = [];
+
+    if (Quarantine.isFailure(result)) {
+      this.failures.push({ result, copies });
+    }
+
+    await this.forEachDestination('add the result to', (reporter, isLast) => {
+      if (isLast) {
+        return reporter.addTestResult(result);
+      }
+
+      const copy = this.cloneResult(result);
+
+      copies.push(copy);
+
+      return reporter.addTestResult(copy);
+    });
+  }
+
+  /**
+   * @returns {TestResultType[]} the results of the first destination which hasn't failed the last call
+   */
+  public getTestResults(): TestResultType[] {
+    const destination = this.destinations.find(({ failed }) => !failed) ?? this.destinations[0];
+
+    return destination?.reporter.getTestResults() ?? [];
+  }
+
+  /**
+   * @returns {TestResultType[]} the results of the first destination which hasn't failed the last call, which stay in it
+   */
+  public peekTestResults(): TestResultType[] {
+    const destination = this.destinations.find(({ failed }) => !failed) ?? this.destinations[0];
+
+    if (destination === undefined) {
+      return [];
+    }
+
+    const { reporter } = destination;
+
+    if (reporter.peekTestResults) {
+      return reporter.peekTestResults();
+    }
+
+    const results = reporter.getTestResults();
+
+    reporter.setTestResults(results);
+
+    return [...results];
+  }
+
+  /**
+   * @param {TestResultType[]} results
+   */
+  public setTestResults(results: TestResultType[]): void {
+    for (const { reporter } of this.destinations) {
+      reporter.setTestResults(results.map((result) => this.cloneResult(result)));
+    }
+  }
+
+  /**
+   * @returns {Promise<void>}
+   */
+  public async sendResults(): Promise<void> {
+    await this.forEachDestination('send the results to', (reporter) => reporter.sendResults());
+  }
+
+  /**
+   * @returns {Promise<void>}
+   */
+  public async complete(): Promise<void> {
+    await this.forEachDestination('complete the run in', (reporter) => reporter.complete());
+    this.logSummary();
+  }
+
+  /**
+   * @returns {Promise<void>}
+   */
+  public async publish(): Promise<void> {
+    await this.forEachDestination('publish the run results to', (reporter) => reporter.publish());
+    this.logSummary();
+  }
+
+  /**
+   * @param {boolean} completeRun
+   * @returns {Promise<void>}
+   */
+  public async interrupt(completeRun: boolean): Promise<void> {
+    await this.forEachDestination(
+      'publish the results of the interrupted tests to',
+      (reporter) => reporter.interrupt ? reporter.interrupt(completeRun) : reporter.publish(),
+    );
+    this.logSummary();
+  }
+
+  /**
+   * @param {string} action
+   * @param {(reporter: InternalReporterInterface, isLast: boolean) => Promise<void>} callback
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async forEachDestination(
+    action: string,
+    callback: (reporter: InternalReporterInterface, isLast: boolean) => Promise<void>,
+  ): Promise<void> {
+    for (const [index, destination] of this.destinations.entries()) {
+      try {
+        await callback(destination.reporter, index === this.destinations.length - 1);
+        destination.failed = false;
+      } catch (error) {
+        this.logger.logError(`Unable to ${action} the "${destination.mode}" reporter:`, error);
+        destination.failed = true;
+        destination.failures++;
+      }
+
+      this.syncMuted();
+    }
+
+    if (this.destinations.every(({ failed }) => failed)) {
+      throw new QaseError(`Unable to ${action} any of the reporters`);
+    }
+  }
+
+  /**
+   * Marks the failed result as muted when a destination has muted its copy,
+   * so the caller and the next destinations see the mute
+   *
+   * @private
+   */
+  private syncMuted(): void {
+    for (const { result, copies } of this.failures) {
+      const muted = copies.find((copy) => copy.muted);
+
+      if (!result.muted && muted) {
+        result.muted = true;
+        result.message = muted.message;
+      }
+    }
+
+    this.failures = this.failures.filter(({ result }) => !result.muted);
+  }
+
+  /**
+   * @private
+   */
+  private logSummary(): void {
+    for (const { mode, failed, failures } of this.destinations) {
+      if (failed) {
+        this.logger.log(chalk`{red Reporter "${mode}" failed}`);
+      } else if (failures > 0) {
+        this.logger.log(chalk`{yellow Reporter "${mode}" succeeded, ${failures} earlier calls failed}`);
+      } else {
+        this.logger.log(chalk`{green Reporter "${mode}" succeeded}`);
+      }
+    }
+  }
+
+  /**
+   * Reporters modify the results they receive, so each one gets its own copy
+   *
+   * @param {TestResultType} result
+   * @returns {TestResultType}
+   * @private
+   */
+  private cloneResult(result: TestResultType): TestResultType {
+    return merge({}, result);
+  }
+}
@@ -1,11 +1,13 @@
 import { AbstractReporter } from './abstract-reporter';
-import { Report, TestStatusEnum, TestStepType } from '../models';
+import { Report, TestStepType } from '../models';
 import { WriterInterface } from '../writer';
 import { HostData } from '../models/host-data';
 import * as os from 'os';
 import * as cp from 'child_process';
 import * as process from 'process';
 import { LoggerInterface } from '../utils/logger';
+import { summarizeResults } from '../utils/summarize-results';
+import { detectCi } from '../ci';
 
 /**
  * @class ReportReporter
@@ -89,7 +91,7 @@ export class ReportReporter extends AbstractReporter {
   }
 
   public async complete(): Promise<void> {
-    this.writer.clearPreviousResults();
+    const { stats, results, threads, cumulativeDuration } = summarizeResults(this.results);
 
     const report: Report = {
       title: 'Test report',
@@ -97,54 +99,16 @@ export class ReportReporter extends AbstractReporter {
         start_time: this.startTime,
         end_time: Date.now(),
         duration: Date.now() - this.startTime,
-        cumulative_duration: 0,
-      },
-      stats: {
-        total: 0,
-        passed: 0,
-        failed: 0,
-        skipped: 0,
-        broken: 0,
-        muted: 0,
+        cumulative_duration: cumulativeDuration,
       },
-      results: [],
-      threads: [],
+      stats,
+      results,
+      threads,
       suites: [],
       environment: this.environment ?? '',
       host_data: this.getHostInfo(),
     };
 
-    for (const result of this.results) {
-      report.stats.total++;
-      switch (result.execution.status) {
-        case TestStatusEnum.passed:
-          report.stats.passed++;
-          break;
-        case TestStatusEnum.failed:
-          report.stats.failed++;
-          break;
-        case TestStatusEnum.skipped:
-          report.stats.skipped++;
-          break;
-        case TestStatusEnum.invalid:
-          report.stats.broken++;
-          break;
-        case TestStatusEnum.blocked:
-          report.stats.muted++;
-          break;
-      }
-
-      report.execution.cumulative_duration += result.execution.duration ?? 0;
-
-      report.results.push({
-        duration: result.execution.duration ?? 0,
-        id: result.id,
-        status: result.execution.status,
-        thread: result.execution.thread,
-        title: result.title,
-      });
-    }
-
     const path = await this.writer.writeReport(report);
 
     this.logger.log(`Report saved to ${path}`);
@@ -172,7 +136,7 @@ export class ReportReporter extends AbstractReporter {
    * @returns {HostData}
    */
   private getHostInfo(): HostData {
-    return {
+    const hostData: HostData = {
       system: process.platform,
       node: this.getComputerName(),
       release: os.release(),
@@ -183,23 +147,37 @@ export class ReportReporter extends AbstractReporter {
       node_version: cp.execSync('node --version').toString().trim(),
       npm: cp.execSync('npm --version').toString().trim(),
     };
+    const ci = detectCi();
+
+    if (ci) {
+      hostData.ci = ci;
+    }
+
+    return hostData;
   }
 
   /**
    * @returns {string}
    */
   private getComputerName(): string {
-    switch (process.platform) {
-      case 'win32':
-        return process.env['COMPUTERNAME'] ?? '';
-      case 'darwin':
-        return cp.execSync('scutil --get ComputerName').toString().trim();
-      case 'linux': {
-        const prettyname = cp.execSync('hostnamectl --pretty').toString().trim();
-        return prettyname === '' ? os.hostname() : prettyname;
+    try {
+      switch (process.platform) {
+        case 'win32':
+          return process.env['COMPUTERNAME'] ?? '';
+        case 'darwin':
+          return cp.execSync('scutil --get ComputerName').toString().trim();
+        case 'linux': {
+          // hostnamectl is missing or fails without systemd, e.g. in containers
+          const prettyname = cp.execSync('hostnamectl --pretty', { stdio: ['ignore', 'pipe', 'ignore'] })
+            .toString()
+            .trim();
+          return prettyname === '' ? os.hostname() : prettyname;
+        }
+        default:
+          return os.hostname();
       }
-      default:
-        return os.hostname();
+    } catch {
+      return os.hostname();
     }
   }
 
@@ -1,4 +1,4 @@
-import { createReadStream } from 'fs';
+import * as path from 'path';
 
 import chalk from 'chalk';
 import {
@@ -9,7 +9,10 @@ import {
   ResultExecution,
   ResultRelations,
   ResultStep,
+  ResultStepData,
+  ResultStepExecution,
   ResultStepStatus,
+  ResultStepsType,
   RunCreate,
   TestStepResultCreate,
   TestStepResultCreateStatusEnum,
@@ -30,17 +33,47 @@ import {
 } from '../models';
 
 import { QaseError } from '../utils/qase-error';
+import { isUnreachableError } from '../utils/is-unreachable-error';
 import { LoggerInterface } from '../utils/logger';
 import axios from 'axios';
 import { StateManager } from '../state/state';
+import { Spool, SpoolBatchType } from '../spool';
+import { FlakyDetector, FlakyScoreType } from '../flaky';
+import { CaseSync } from '../cases';
+import { TestPlan } from '../plan';
+import { Quarantine } from '../quarantine';
+import { DefectTracker } from '../defects';
+import { IssueSync, IssueSyncOptionsType } from '../issues';
+import { RunProvisioner } from '../provision';
+import { CiMetadataType, detectCi, formatCiMetadata } from '../ci';
+import { SharedRun } from '../shared-run';
+import { AttachmentUploader } from '../attachments';
 
 const defaultChunkSize = 200;
+const defaultSpoolPath = path.join('build', 'qase-spool');
+const disabledFieldValues = ['', '0', 'false', 'no'];
+
+type RunEntitiesType = Pick<RunCreate, 'environment_id' | 'milestone_id' | 'configurations'>;
+
+// the V2 API accepts the parameter groups as the V1 one, the generated model doesn't have them
+interface ResultCreateV2WithGroupsType extends ResultCreateV2 {
+  param_groups?: string[][] | null;
+}
 
 export interface TestOpsRunType {
   id?: number | undefined;
   title: string;
   description: string;
   complete?: boolean | undefined;
+  rerunId?: number | undefined;
+  milestone?: string | undefined;
+  configurations?: Record<string, string | undefined> | undefined;
+  provision?: boolean | undefined;
+  tags?: string[] | undefined;
+  customFields?: Record<string, string | undefined> | undefined;
+  key?: string | undefined;
+  shards?: number | undefined;
+  shard?: string | undefined;
 }
 
 export interface TestOpsPlanType {
@@ -49,6 +82,42 @@ export interface TestOpsPlanType {
 
 export interface TestOpsBatchType {
   size?: number | undefined;
+  // seconds between the uploads of the results, whatever the size of the batch
+  interval?: number | undefined;
+}
+
+export interface TestOpsSpoolType {
+  enabled?: boolean | undefined;
+  path?: string | undefined;
+}
+
+export interface TestOpsAttachmentsType {
+  concurrency?: number | undefined;
+  maxFileSize?: number | undefined;
+  maxRunSize?: number | undefined;
+  compress?: boolean | undefined;
+  retries?: number | undefined;
+}
+
+export interface TestOpsFlakyType {
+  enabled?: boolean | undefined;
+  days?: number | undefined;
+  threshold?: number | undefined;
+}
+
+export interface TestOpsCaseSyncType {
+  enabled?: boolean | undefined;
+  cachePath?: string | undefined;
+}
+
+export interface TestOpsDefectsType {
+  enabled?: boolean | undefined;
+  resolve?: boolean | undefined;
+  severity?: number | undefined;
+}
+
+export interface TestOpsQuarantineType {
+  field?: number | undefined;
 }
 
 export interface TestOpsOptionsType {
@@ -59,6 +128,13 @@ export interface TestOpsOptionsType {
   batch?: TestOpsBatchType;
   defect?: boolean | undefined;
   useV2?: boolean | undefined;
+  spool?: TestOpsSpoolType | undefined;
+  attachments?: TestOpsAttachmentsType | undefined;
+  flaky?: TestOpsFlakyType | undefined;
+  caseSync?: TestOpsCaseSyncType | undefined;
+  defects?: TestOpsDefectsType | undefined;
+  issues?: IssueSyncOptionsType | undefined;
+  quarantine?: TestOpsQuarantineType | undefined;
 }
 
 /**
@@ -134,6 +210,32 @@ export class TestOpsReporter extends AbstractReporter {
    */
   private readonly batchSize: number;
 
+  /**
+   * ms between the uploads of the results, whatever the size of the batch
+   * @type {number | undefined}
+   * @private
+   */
+  private readonly flushInterval: number | undefined;
+
+  /**
+   * @type {NodeJS.Timeout | undefined}
+   * @private
+   */
+  private flushTimer: NodeJS.Timeout | undefined;
+
+  /**
+   * The batches are sent one after another
+   * @type {Promise<void>}
+   * @private
+   */
+  private batchOperation: Promise<void> = Promise.resolve();
+
+  /**
+   * @type {number}
+   * @private
+   */
+  private pendingBatches = 0;
+
   /**
    * @type {boolean | undefined}
    * @private
@@ -152,12 +254,110 @@ export class TestOpsReporter extends AbstractReporter {
    */
   private readonly rootSuite: string | undefined;
 
+  /**
+   * @type {Spool | undefined}
+   * @private
+   */
+  private readonly spool: Spool | undefined;
+
+  /**
+   * @type {CaseSync | undefined}
+   * @private
+   */
+  private readonly caseSync: CaseSync | undefined;
+
+  /**
+   * @type {FlakyDetector | undefined}
+   * @private
+   */
+  private readonly flakyDetector: FlakyDetector | undefined;
+
+  /**
+   * @type {DefectTracker | undefined}
+   * @private
+   */
+  private readonly defectTracker: DefectTracker | undefined;
+
+  /**
+   * @type {IssueSync}
+   * @private
+   */
+  private readonly issueSync: IssueSync;
+
+  /**
+   * @type {RunProvisioner}
+   * @private
+   */
+  private readonly runProvisioner: RunProvisioner;
+
+  /**
+   * Run shared by the shards with the same run key
+   * @type {SharedRun | undefined}
+   * @private
+   */
+  private readonly sharedRun: SharedRun | undefined;
+
+  /**
+   * Build metadata of the CI system the tests run in
+   * @type {CiMetadataType | undefined}
+   * @private
+   */
+  private readonly ci: CiMetadataType | undefined;
+
+  /**
+   * ID of the case field which marks the quarantined cases
+   * @type {number | undefined}
+   * @private
+   */
+  private readonly quarantineField: number | undefined;
+
+  /**
+   * Whether the cases are quarantined, keyed by case ID
+   * @type {Map<number, boolean>}
+   * @private
+   */
+  private readonly quarantinedCases = new Map<number, boolean>();
+
+  /**
+   * Failed results of the tests which are known to be flaky
+   * @type {{ result: TestResultType, score: FlakyScoreType }[]}
+   * @private
+   */
+  private readonly flakyFailures: { result: TestResultType, score: FlakyScoreType }[] = [];
+
+  /**
+   * Case IDs of the sent results
+   * @type {Set<number>}
+   * @private
+   */
+  private readonly executedCaseIds = new Set<number>();
+
+  /**
+   * Qase is unreachable, all results are saved to the spool
+   * @type {boolean}
+   * @private
+   */
+  private offline = false;
+
+  /**
+   * @type {AttachmentUploader}
+   * @private
+   */
+  private readonly attachmentUploader: AttachmentUploader;
+
   /**
    * @type {number}
    * @private
    */
   private firstIndex = 0;
 
+  /**
+   * Results of the failed interval batches, sent again with the next batch
+   * @type {TestResultType[]}
+   * @private
+   */
+  private failedResults: TestResultType[] = [];
+
   /**
    * @type {boolean}
    * @private
@@ -196,197 +396,832 @@ export class TestOpsReporter extends AbstractReporter {
     this.environment = environment;
     this.planId = plan.id;
     this.batchSize = options.batch?.size ?? defaultChunkSize;
+    this.flushInterval = options.batch?.interval ? options.batch.interval * 1000 : undefined;
     this.useV2 = options.useV2 ?? false;
-    this.defect = options.defect ?? false;
+    // the tracked defects replace the ones Qase creates for the results
+    this.defect = (options.defect ?? false) && !options.defects?.enabled;
     this.rootSuite = rootSuite;
+
+    if (options.spool?.enabled) {
+      this.spool = new Spool(options.spool.path ?? defaultSpoolPath);
+    }
+
+    this.attachmentUploader = new AttachmentUploader(logger, api, project, options.attachments);
+
+    if (options.caseSync?.enabled) {
+      this.caseSync = new CaseSync(logger, api, project, {
+        cachePath: options.caseSync.cachePath,
+        rootSuite,
+      });
+    }
+
+    if (options.flaky?.enabled) {
+      this.flakyDetector = new FlakyDetector(logger, api, project, options.flaky);
+    }
+
+    if (options.defects?.enabled) {
+      this.defectTracker = new DefectTracker(logger, api, project, options.defects);
+    }
+
+    this.issueSync = new IssueSync(logger, api, project, options.issues);
+    this.runProvisioner = new RunProvisioner(logger, api, project, { create: run.provision });
+
+    if (run.key) {
+      this.sharedRun = new SharedRun(logger, api, project, { key: run.key, shards: run.shards, shard: run.shard });
+    }
+    this.ci = detectCi();
+    this.quarantineField = options.quarantine?.field;
+  }
+
+  /**
+   * @returns {Promise<void>}
+   */
+  public async startTestRun(): Promise<void> {
+    await this.checkOrCreateTestRun();
+    this.startFlushTimer();
+  }
+
+  /**
+   * @param {TestResultType} result
+   * @returns {Promise<void>}
+   */
+  public override async addTestResult(result: TestResultType): Promise<void> {
+    if (result.execution.status === TestStatusEnum.failed && !this.offline) {
+
+      if (Array.isArray(result.testops_id)) {
+        for (const id of result.testops_id) {
+          this.showLink(id, result.title);
+        }
+      } else {
+        this.showLink(result.testops_id, result.title);
+      }
+    }
+
+    await super.addTestResult(result);
+
+    if (!this.isTestRunReady) {
+      return;
+    }
+
+    const countOfResults = this.batchSize + this.firstIndex;
+
+    if (this.results.length >= countOfResults) {
+      const firstIndex = this.firstIndex;
+      this.firstIndex = countOfResults;
+      await this.publishBatch(this.results.slice(firstIndex, countOfResults));
+    }
+  }
+
+  /**
+   * @param {TestResultType[]} results
+   * @returns {Promise<void>}
+   * @private
+   */
+  private publishBatch(results: TestResultType[]): Promise<void> {
+    this.pendingBatches++;
+
+    const operation = this.batchOperation
+      .then(() => this.publishResults(results))
+      .finally(() => {
+        this.pendingBatches--;
+      });
+
+    // a failed batch doesn't stop the next ones, its error goes to the caller
+    this.batchOperation = operation.catch(() => undefined);
+
+    return operation;
+  }
+
+  /**
+   * @private
+   */
+  private startFlushTimer(): void {
+    if (this.flushInterval === undefined || this.flushTimer !== undefined || !this.isTestRunReady) {
+      return;
+    }
+
+    this.flushTimer = setInterval(() => void this.flushByInterval(), this.flushInterval);
+    // the timer doesn't keep the test process running
+    this.flushTimer.unref();
+  }
+
+  /**
+   * @private
+   */
+  private stopFlushTimer(): void {
+    clearInterval(this.flushTimer);
+    this.flushTimer = undefined;
+  }
+
+  /**
+   * Sends the results reported since the last batch.
+   * The tick is skipped while a batch is being sent, so a slow Qase doesn't get more batches.
+   *
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async flushByInterval(): Promise<void> {
+    if (this.pendingBatches > 0) {
+      return;
+    }
+
+    const results = this.failedResults.length > 0
+      ? this.failedResults.splice(0, this.batchSize)
+      : this.takeNextBatch();
+
+    if (results.length === 0) {
+      return;
+    }
+
+    this.logger.logDebug(`Sending ${results.length} results on the flush interval`);
+
+    try {
+      await this.publishBatch(results);
+    } catch (error) {
+      this.failedResults.push(...results);
+      this.logger.logError('Unable to send the results on the flush interval, they will be sent again:', error);
+    }
+  }
+
+  /**
+   * @returns {TestResultType[]} the results reported since the last batch
+   * @private
+   */
+  private takeNextBatch(): TestResultType[] {
+    const firstIndex = this.firstIndex;
+
+    this.firstIndex = Math.min(this.results.length, firstIndex + this.batchSize);
+
+    return this.results.slice(firstIndex, this.firstIndex);
+  }
+
+  /**
+   * @returns {Promise<void>}
+   */
+  private async checkOrCreateTestRun(): Promise<void> {
+    if (this.run.id !== undefined) {
+      this.isTestRunReady = true;
+
+      return;
+    }
+
+    try {
+      await this.createTestRun();
+    } catch (error) {
+      if (this.spool === undefined || !isUnreachableError(error)) {
+        throw error;
+      }
+
+      this.logger.logError('Unable to create the test run, the results will be saved to the spool:', error);
+      this.goOffline();
+      this.isTestRunReady = true;
+    }
+  }
+
+  /**
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async createTestRun(): Promise<void> {
+    // the processes of the session, e.g. the workers, create the run once
+    const createdRunId = await StateManager.claimRun();
+
+    if (createdRunId !== undefined) {
+      this.logger.logDebug(`Test run created by another process: ${createdRunId}`);
+      this.useRun(createdRunId);
+
+      return;
+    }
+
+    let runId: number;
+
+    try {
+      runId = await this.findOrCreateRun();
+    } catch (error) {
+      StateManager.releaseRun();
+      throw error;
+    }
+
+    this.useRun(runId);
+    StateManager.setRunId(runId);
+  }
+
+  /**
+   * @returns {Promise<number>} the ID of the run with the run key, or of the created run
+   * @private
+   */
+  private async findOrCreateRun(): Promise<number> {
+    const sharedRunId = await this.findSharedRun();
+
+    if (sharedRunId !== undefined) {
+      this.logger.logDebug(`Test run with the key found: ${sharedRunId}`);
+
+      return sharedRunId;
+    }
+
+    this.logger.logDebug('Creating test run');
+
+    const { result } = await this.createRun(
+      this.run.title,
+      this.getRunDescription(),
+      await this.provisionRun(),
+    );
+
+    if (!result?.id) {
+      throw new Error('Cannot create run.');
+    }
+
+    this.logger.logDebug(`Test run created: ${result.id}`);
+
+    return this.settleSharedRun(result.id);
+  }
+
+  /**
+   * @returns {Promise<number | undefined>} the ID of the open run with the run key
+   * @private
+   */
+  private async findSharedRun(): Promise<number | undefined> {
+    if (this.sharedRun === undefined) {
+      return undefined;
+    }
+
+    try {
+      return await this.sharedRun.findRunId();
+    } catch (error) {
+      throw this.processError(error, 'Error on finding the run with the key');
+    }
+  }
+
+  /**
+   * @param {number} runId the created run
+   * @returns {Promise<number>} the run to report to, another shard may have created the run at the same time
+   * @private
+   */
+  private async settleSharedRun(runId: number): Promise<number> {
+    if (this.sharedRun === undefined) {
+      return runId;
+    }
+
+    try {
+      return await this.sharedRun.settle(runId);
+    } catch (error) {
+      this.logger.logError('Unable to check the runs created by the other shards:', error);
+
+      return runId;
+    }
+  }
+
+  /**
+   * @param {number} runId
+   * @private
+   */
+  private useRun(runId: number): void {
+    this.run.id = runId;
+    process.env['QASE_TESTOPS_RUN_ID'] = String(runId);
+    this.isTestRunReady = true;
+  }
+
+  /**
+   * The description is followed by the CI build metadata,
+   * and a run re-running the failures of an earlier run links to it
+   *
+   * @returns {string}
+   * @private
+   */
+  private getRunDescription(): string {
+    const parts = [this.run.description];
+
+    if (this.ci) {
+      parts.push(formatCiMetadata(this.ci));
+    }
+
+    if (this.run.rerunId !== undefined) {
+      const rerunUrl = `${this.baseUrl}/run/${this.projectCode}/dashboard/${this.run.rerunId}`;
+
+      parts.push(`Re-run of the failed tests of run ${this.run.rerunId}: ${rerunUrl}`);
+    }
+
+    return parts.join('\n\n');
+  }
+
+  /**
+   * @returns {string[]} the tags of the options and of the CI system, the provider and the branch
+   * @private
+   */
+  private getRunTags(): string[] {
+    const tags = [...this.run.tags ?? []];
+
+    if (this.sharedRun) {
+      tags.push(this.sharedRun.getTag());
+    }
+
+    if (this.ci) {
+      tags.push(this.ci.provider);
+
+      if (this.ci.branch) {
+        tags.push(this.ci.branch);
+      }
+    }
+
+    return [...new Set(tags)];
+  }
+
+  /**
+   * @returns {Promise<void>}
+   * @param testResults
+   * @private
+   */
+  private async publishResults(testResults: TestResultType[]): Promise<void> {
+    await this.syncCases(testResults);
+    await this.muteQuarantinedCases(testResults);
+    await this.trackDefects(testResults);
+    await this.markKnownFlaky(testResults);
+
+    this.issueSync.collect(testResults);
+
+    for (const { testops_id } of testResults) {
+      for (const id of Array.isArray(testops_id) ? testops_id : [testops_id]) {
+        if (id !== null) {
+          this.executedCaseIds.add(id);
+        }
+      }
+    }
+
+    // the results are transformed at the same time, so their attachments are uploaded together
+    if (this.useV2) {
+      const results: ResultCreateV2[] = await Promise.all(
+        testResults.map((result) => this.transformTestResult(result)),
+      );
+
+      await this.sendBatch({ useV2: true, results });
+    } else {
+      const results: ResultCreate[] = await Promise.all(
+        testResults.map((result) => this.transformTestResultV1(result)),
+      );
+
+      await this.sendBatch({ useV2: false, results });
+    }
+  }
+
+  /**
+   * Links the results without Qase IDs to the test cases by their signatures
+   *
+   * @param {TestResultType[]} testResults
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async syncCases(testResults: TestResultType[]): Promise<void> {
+    if (this.caseSync === undefined || this.offline) {
+      return;
+    }
+
+    try {
+      await this.caseSync.sync(testResults);
+    } catch (error) {
+      this.logger.logError('Unable to link the results to the test cases:', error);
+    }
+  }
+
+  /**
+   * Mutes the failures of the cases marked with the quarantine case field
+   *
+   * @param {TestResultType[]} testResults
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async muteQuarantinedCases(testResults: TestResultType[]): Promise<void> {
+    if (this.quarantineField === undefined || this.offline) {
+      return;
+    }
+
+    for (const result of testResults) {
+      if (result.muted || !Quarantine.isFailure(result) || result.testops_id === null) {
+        continue;
+      }
+
+      for (const id of Array.isArray(result.testops_id) ? result.testops_id : [result.testops_id]) {
+        if (await this.isQuarantinedCase(id)) {
+          Quarantine.mute(result, `case ${id} is marked in Qase`);
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * @param {number} caseId
+   * @returns {Promise<boolean>}
+   * @private
+   */
+  private async isQuarantinedCase(caseId: number): Promise<boolean> {
+    const cached = this.quarantinedCases.get(caseId);
+
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let quarantined = false;
+
+    try {
+      const { data } = await this.api.cases.getCase(this.projectCode, caseId);
+      const value = data.result?.custom_fields
+        ?.find(({ id }) => id === this.quarantineField)
+        ?.value;
+
+      quarantined = value !== undefined && !disabledFieldValues.includes(value.trim().toLowerCase());
+    } catch (error) {
+      this.logger.logError(`Unable to get the case ${caseId}:`, error);
+    }
+
+    this.quarantinedCases.set(caseId, quarantined);
+
+    return quarantined;
+  }
+
+  /**
+   * @param {TestResultType[]} testResults
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async trackDefects(testResults: TestResultType[]): Promise<void> {
+    const runId = this.run.id;
+
+    if (this.defectTracker === undefined || this.offline || runId === undefined) {
+      return;
+    }
+
+    try {
+      await this.defectTracker.track(testResults, (result) => {
+        const [id = null] = Array.isArray(result.testops_id) ? result.testops_id : [result.testops_id];
+
+        return this.prepareFailedTestLink(runId, id, result.title);
+      });
+    } catch (error) {
+      this.logger.logError('Unable to create the defects:', error);
+    }
+  }
+
+  /**
+   * Marks the failures of the tests which are flaky according to the run history
+   *
+   * @param {TestResultType[]} testResults
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async markKnownFlaky(testResults: TestResultType[]): Promise<void> {
+    if (this.flakyDetector === undefined || this.offline) {
+      return;
+    }
+
+    // a batch which failed to upload is sent again, its results are marked already
+    const failedResults = testResults.filter((result) => result.execution.status === TestStatusEnum.failed
+      && !this.flakyFailures.some((failure) => failure.result === result));
+    const getCaseIds = ({ testops_id }: TestResultType): number[] => {
+      if (testops_id === null) {
+        return [];
+      }
+
+      return Array.isArray(testops_id) ? testops_id : [testops_id];
+    };
+
+    try {
+      await this.flakyDetector.analyze(failedResults.flatMap(getCaseIds), this.run.id);
+    } catch (error) {
+      this.logger.logError('Unable to get the history of the test cases:', error);
+      return;
+    }
+
+    for (const result of failedResults) {
+      const [score] = getCaseIds(result)
+        .map((id) => this.flakyDetector?.getFlakyScore(id))
+        .filter((score): score is FlakyScoreType => score !== undefined)
+        .sort((a, b) => b.score - a.score);
+
+      if (score === undefined) {
+        continue;
+      }
+
+      result.message = [
+        `Known flaky test: flakiness score ${score.score.toFixed(2)}, failed ${score.failures} of the last ${score.results} results`,
+        result.message,
+      ].filter(Boolean).join('\n\n');
+
+      this.flakyFailures.push({ result, score });
+    }
+  }
+
+  /**
+   * @param {SpoolBatchType} batch
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async sendBatch(batch: SpoolBatchType): Promise<void> {
+    if (this.offline) {
+      this.spoolBatch(batch);
+      return;
+    }
+
+    const runId = this.run.id;
+
+    if (runId === undefined) {
+      throw new QaseError('Unable to upload the results: the test run is not created');
+    }
+
+    try {
+      if (batch.useV2) {
+        await this.api.result.createResultsV2(this.projectCode, runId, {
+          results: batch.results,
+        });
+      } else {
+        await this.api.results.createResultBulk(this.projectCode, runId, {
+          results: batch.results,
+        });
+      }
+    } catch (error) {
+      const qaseError = this.processError(error, 'Error on uploading results', batch.results);
+
+      if (this.spool === undefined || !isUnreachableError(error)) {
+        throw qaseError;
+      }
+
+      this.logger.logError('Unable to upload the results, they will be saved to the spool:', qaseError);
+      this.goOffline();
+      this.spoolBatch(batch);
+      return;
+    }
+
+    this.logger.logDebug(`Results sent to Qase: ${batch.results.length}`);
+  }
+
+  /**
+   * @private
+   */
+  private goOffline(): void {
+    if (this.spool === undefined || this.offline) {
+      return;
+    }
+
+    this.offline = true;
+    this.spool.writeManifest({
+      project: this.projectCode,
+      runId: this.run.id ?? null,
+      run: this.getRunObject(this.run.title, this.getRunDescription(), {}),
+      entities: {
+        environment: this.environment,
+        milestone: this.run.milestone,
+        configurations: this.run.configurations,
+        provision: this.run.provision,
+      },
+      complete: this.run.complete ?? true,
+      attachments: {},
+    });
+  }
+
+  /**
+   * The attachments which were not uploaded are already in the spool, and the batch refers to them
+   *
+   * @param {SpoolBatchType} batch
+   * @private
+   */
+  private spoolBatch(batch: SpoolBatchType): void {
+    if (this.spool === undefined) {
+      return;
+    }
+
+    this.spool.writeBatch(batch);
+    this.logger.logDebug(`Results saved to the spool: ${batch.results.length}`);
   }
 
   /**
    * @returns {Promise<void>}
    */
-  public async startTestRun(): Promise<void> {
-    await this.checkOrCreateTestRun();
+  public async publish(): Promise<void> {
+    await this.sendResults();
+    await this.complete();
   }
 
   /**
-   * @param {TestResultType} result
+   * Qase can't mark a run as aborted, so the run of the interrupted tests is left open unless `completeRun` is set
+   *
+   * @param {boolean} completeRun
    * @returns {Promise<void>}
    */
-  public override async addTestResult(result: TestResultType): Promise<void> {
-    if (result.execution.status === TestStatusEnum.failed) {
+  public async interrupt(completeRun: boolean): Promise<void> {
+    await this.sendResults();
 
-      if (Array.isArray(result.testops_id)) {
-        for (const id of result.testops_id) {
-          this.showLink(id, result.title);
-        }
-      } else {
-        this.showLink(result.testops_id, result.title);
-      }
+    if (completeRun) {
+      await this.complete();
+      return;
     }
 
-    await super.addTestResult(result);
+    if (this.run.id !== undefined && !this.offline) {
+      this.logger.log(chalk`{yellow Run ${this.run.id} of the interrupted tests is left open}`);
+    }
+  }
 
-    if (!this.isTestRunReady) {
+  /**
+   * @returns {Promise<void>}
+   */
+  public async sendResults(): Promise<void> {
+    if (this.results.length === 0) {
+      this.logger.log(chalk`{yellow No results to send to Qase}`);
       return;
     }
 
-    const countOfResults = this.batchSize + this.firstIndex;
+    // the results may be in a batch which is still being sent, its results are sent again if it fails
+    await this.batchOperation;
 
-    if (this.results.length >= countOfResults) {
-      const firstIndex = this.firstIndex;
-      this.firstIndex = countOfResults;
-      await this.publishResults(this.results.slice(firstIndex, countOfResults));
+    const results = [...this.failedResults.splice(0), ...this.results.slice(this.firstIndex)];
+
+    this.firstIndex = this.results.length;
+
+    if (results.length > 0) {
+      await this.publishBatch(results);
     }
+
+    // Clear results because we don't need to send them again then we use Cypress reporter
+    this.results.length = 0;
+    this.firstIndex = 0;
   }
 
   /**
    * @returns {Promise<void>}
    */
-  private async checkOrCreateTestRun(): Promise<void> {
-    if (this.run.id !== undefined) {
-      this.isTestRunReady = true;
+  public async complete(): Promise<void> {
+    this.stopFlushTimer();
+
+    if (this.flakyFailures.length > 0) {
+      this.logger.log(chalk`{yellow Known flaky tests failed: ${this.flakyFailures.length}}`);
+
+      for (const { result: { title }, score } of this.flakyFailures) {
+        this.logger.log(chalk`{yellow   ${title} (case ${score.caseId}, flakiness score ${score.score.toFixed(2)})}`);
+      }
+    }
 
+    if (this.offline && this.spool !== undefined) {
+      this.logger.log(chalk`{yellow Qase is unreachable, the results are saved to ${this.spool.path}}`);
+      this.logger.log(chalk`{yellow Run "npx qase spool replay" to upload them later}`);
       return;
     }
 
-    this.logger.logDebug('Creating test run');
+    await this.reportUntestedPlanCases();
+    await this.resolvePassedDefects();
+    await this.syncIssues();
 
-    let environmentId: number | undefined;
-    if (this.environment != undefined) {
-      try {
-        const { data } = await this.api.environment.getEnvironments(this.projectCode, undefined, this.environment, 100);
-        const env = data.result?.entities?.find((env) => env.slug === this.environment);
-        if (env) {
-          environmentId = env.id;
-        }
-      } catch (error) {
-        throw this.processError(error, 'Error on getting environments');
-      }
+    const runId = this.run.id;
+
+    if (!this.run.complete || runId === undefined || !(await this.isLastShard(runId))) {
+      return;
     }
-    const { result } = await this.createRun(
-      this.run.title,
-      this.run.description,
-      environmentId,
-    );
 
-    if (!result?.id) {
-      throw new Error('Cannot create run.');
+    try {
+      await this.completeRun(runId);
+      this.logger.log(chalk`{green Run ${runId} completed}`);
+    } catch (error) {
+      throw this.processError(error, 'Error on completing run');
     }
 
-    this.logger.logDebug(`Test run created: ${result.id}`);
+    const runUrl = `${this.baseUrl}/run/${this.projectCode}/dashboard/${runId}`;
 
-    this.run.id = result.id;
-    process.env['QASE_TESTOPS_RUN_ID'] = String(result.id);
-    StateManager.setRunId(result.id);
-    this.isTestRunReady = true;
+    this.logger.log(chalk`{blue Test run link: ${runUrl}}`);
   }
 
   /**
+   * @param {number} runId
    * @returns {Promise<void>}
-   * @param testResults
    * @private
    */
-  private async publishResults(testResults: TestResultType[]): Promise<void> {
-    if (this.useV2) {
-      const results: ResultCreateV2[] = [];
+  private async completeRun(runId: number): Promise<void> {
+    // another shard may have completed the shared run
+    if (this.sharedRun) {
+      await this.sharedRun.complete(runId);
+    } else {
+      await this.api.runs.completeRun(this.projectCode, runId);
+    }
+  }
 
-      for (const result of testResults) {
-        const resultCreateV2 = await this.transformTestResult(result);
-        results.push(resultCreateV2);
-      }
-      try {
-        await this.api.result.createResultsV2(this.projectCode, this.run.id!, {
-          results: results,
-        });
-      } catch (error) {
-        throw this.processError(error, 'Error on uploading results', results);
-      }
+  /**
+   * @param {number} runId
+   * @returns {Promise<boolean>} whether the run is completed by this reporter
+   * @private
+   */
+  private async isLastShard(runId: number): Promise<boolean> {
+    if (this.sharedRun === undefined) {
+      return true;
+    }
 
-    } else {
-      const results: ResultCreate[] = [];
+    const runUrl = `${this.baseUrl}/run/${this.projectCode}/dashboard/${runId}`;
 
-      for (const result of testResults) {
-        const resultCreate = await this.transformTestResultV1(result);
-        results.push(resultCreate);
+    try {
+      if (await this.sharedRun.finish(runId)) {
+        return true;
       }
+    } catch (error) {
+      this.logger.logError('Unable to mark the shard as finished:', error);
+    }
 
-      try {
-        await this.api.results.createResultBulk(this.projectCode, this.run.id!, {
-          results: results,
-        });
-      } catch (error) {
-        throw this.processError(error, 'Error on uploading results', results);
-      }
+    if (this.run.shards === undefined) {
+      this.logger.log(chalk`{yellow Run ${runId} is shared by its key and is left open, set the number of shards to complete it}`);
+    } else {
+      this.logger.log(chalk`{blue Run ${runId} is shared with the other shards, it is completed by the last one}`);
     }
 
-    this.logger.logDebug(`Results sent to Qase: ${testResults.length}`);
-  }
+    this.logger.log(chalk`{blue Test run link: ${runUrl}}`);
 
-  /**
-   * @returns {Promise<void>}
-   */
-  public async publish(): Promise<void> {
-    await this.sendResults();
-    await this.complete();
+    return false;
   }
 
   /**
    * @returns {Promise<void>}
+   * @private
    */
-  public async sendResults(): Promise<void> {
-    if (this.results.length === 0) {
-      this.logger.log(chalk`{yellow No results to send to Qase}`);
+  private async resolvePassedDefects(): Promise<void> {
+    if (this.defectTracker === undefined) {
       return;
     }
 
-    if (this.firstIndex < this.results.length) {
-      await this.publishResults(this.results.slice(this.firstIndex));
+    try {
+      const resolved = await this.defectTracker.resolvePassed();
+
+      if (resolved.length > 0) {
+        this.logger.log(chalk`{green Defects resolved, their tests have passed: ${resolved.join(', ')}}`);
+      }
+    } catch (error) {
+      this.logger.logError('Unable to resolve the defects:', error);
     }
+  }
 
-    // Clear results because we don't need to send them again then we use Cypress reporter
-    this.results.length = 0;
+  /**
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async syncIssues(): Promise<void> {
+    try {
+      for (const { caseId, issues } of await this.issueSync.sync()) {
+        this.logger.log(chalk`{yellow Case ${caseId} is linked to issues which are not declared in the tests: ${issues.join(', ')}}`);
+      }
+    } catch (error) {
+      this.logger.logError('Unable to link the cases to the external issues:', error);
+    }
   }
 
   /**
+   * The cases of the plan which have no automated test stay untested in the run
+   *
    * @returns {Promise<void>}
+   * @private
    */
-  public async complete(): Promise<void> {
-    if (!this.run.complete) {
+  private async reportUntestedPlanCases(): Promise<void> {
+    // reporters which send the results from the worker processes have nothing to compare
+    if (this.planId === undefined || this.executedCaseIds.size === 0) {
       return;
     }
 
     try {
-      await this.api.runs.completeRun(this.projectCode, this.run.id!);
-      this.logger.log(chalk`{green Run ${this.run.id!} completed}`);
+      const caseIds = await new TestPlan(this.api, this.projectCode).getCaseIds(this.planId);
+      const untested = caseIds.filter((id) => !this.executedCaseIds.has(id));
+
+      if (untested.length > 0) {
+        this.logger.log(chalk`{yellow Cases of plan ${this.planId} without automated tests, left untested: ${untested.join(', ')}}`);
+      }
     } catch (error) {
-      throw this.processError(error, 'Error on completing run');
+      this.logger.logError('Unable to get the cases of the test plan:', error);
     }
-
-    const runUrl = `${this.baseUrl}/run/${this.projectCode}/dashboard/${this.run.id!}`;
-
-    this.logger.log(chalk`{blue Test run link: ${runUrl}}`);
   }
 
   /**
    * @param {TestResultType} result
-   * @returns Promise<ResultCreateV2>
+   * @returns Promise<ResultCreateV2WithGroupsType>
    * @private
    */
-  private async transformTestResult(result: TestResultType): Promise<ResultCreateV2> {
+  private async transformTestResult(result: TestResultType): Promise<ResultCreateV2WithGroupsType> {
     const attachments = await this.uploadAttachments(result.attachments);
     const steps = await this.transformSteps(result.steps, result.title);
+    const { params, paramGroups } = this.getParams(result);
 
-    const model = {
+    const model: ResultCreateV2WithGroupsType = {
+      id: result.id,
       title: result.title,
+      signature: result.signature,
       execution: this.getExecution(result.execution),
       testops_id: Array.isArray(result.testops_id) ? null : result.testops_id,
+      fields: result.fields,
       attachments: attachments,
       steps: steps,
-      params: result.params,
+      steps_type: result.steps.some((step) => step.step_type === StepType.GHERKIN)
+        ? ResultStepsType.GHERKIN
+        : ResultStepsType.CLASSIC,
+      params,
+      param_groups: paramGroups,
       relations: this.getRelation(result.relations),
       message: result.message,
+      muted: result.muted,
     };
 
+    if (result.author) {
+      model.author = result.author;
+    }
+
     this.logger.logDebug(`Transformed result: ${JSON.stringify(model)}`);
 
     return model;
@@ -400,39 +1235,14 @@ export class TestOpsReporter extends AbstractReporter {
   private async transformTestResultV1(result: TestResultType): Promise<ResultCreate> {
     const attachments = await this.uploadAttachments(result.attachments);
     const steps = await this.transformStepsV1(result.steps, result.title);
-
-    const param: Record<string, string> = {};
-
-    for (const key in result.params) {
-      const value = result.params[key];
-      if (!value) {
-        continue;
-      }
-      param[key] = value;
-    }
-
-    const group_params: string[][] = [];
-
-    const keys = Object.keys(result.group_params);
-    if (keys.length > 0) {
-      group_params.push(keys);
-    }
-
-    for (const key in result.group_params) {
-      const value = result.group_params[key];
-      if (!value) {
-        continue;
-      }
-      param[key] = value;
-    }
-
+    const { params, paramGroups } = this.getParams(result);
 
     const resultCreate: ResultCreate = {
       attachments: attachments,
       comment: result.message,
       defect: this.defect,
-      param: param,
-      param_groups: group_params,
+      param: params,
+      param_groups: paramGroups,
       stacktrace: result.execution.stacktrace,
       start_time: result.execution.start_time ? result.execution.start_time | 0 : null,
       status: result.execution.status,
@@ -472,6 +1282,42 @@ export class TestOpsReporter extends AbstractReporter {
     return resultCreate;
   }
 
+  /**
+   * The group params are sent as params, with their names as a group
+   *
+   * @param {TestResultType} result
+   * @returns {{ params: Record<string, string>, paramGroups: string[][] }}
+   * @private
+   */
+  private getParams(result: TestResultType): { params: Record<string, string>, paramGroups: string[][] } {
+    const params: Record<string, string> = {};
+
+    for (const key in result.params) {
+      const value = result.params[key];
+      if (!value) {
+        continue;
+      }
+      params[key] = value;
+    }
+
+    const paramGroups: string[][] = [];
+
+    const keys = Object.keys(result.group_params);
+    if (keys.length > 0) {
+      paramGroups.push(keys);
+    }
+
+    for (const key in result.group_params) {
+      const value = result.group_params[key];
+      if (!value) {
+        continue;
+      }
+      params[key] = value;
+    }
+
+    return { params, paramGroups };
+  }
+
   /**
    * @returns {ResultExecution}
    * @private
@@ -545,33 +1391,48 @@ export class TestOpsReporter extends AbstractReporter {
     for (const step of steps) {
       const attachmentHashes: string[] = await this.uploadAttachments(step.attachments);
 
-      const resultStep: ResultStep = {
-        data: {
-          action: '',
-        },
-        execution: {
-          status: TestOpsReporter.stepStatusMap[step.execution.status],
-          attachments: attachmentHashes,
-        },
+      const data: ResultStepData = {
+        action: '',
+      };
+      const execution: ResultStepExecution = {
+        status: TestOpsReporter.stepStatusMap[step.execution.status],
+        start_time: step.execution.start_time,
+        end_time: step.execution.end_time,
+        duration: step.execution.duration,
+        attachments: attachmentHashes,
       };
 
+      if (step.execution.comment) {
+        execution.comment = step.execution.comment;
+      }
+
       if (step.step_type === StepType.TEXT) {
-        if ('action' in step.data && resultStep.data != undefined) {
+        if ('action' in step.data) {
           if (step.data.action === '') {
             this.logEmptyStep(testTitle);
-            resultStep.data.action = 'Unnamed step';
+            data.action = 'Unnamed step';
           } else {
-            resultStep.data.action = step.data.action;
+            data.action = step.data.action;
+          }
+
+          if (step.data.expected_result) {
+            data.expected_result = step.data.expected_result;
+          }
+
+          if (step.data.input_data) {
+            data.input_data = step.data.input_data;
           }
         }
       }
 
       if (step.step_type === StepType.GHERKIN) {
-        if ('keyword' in step.data && resultStep.data != undefined) {
-          resultStep.data.action = step.data.keyword;
+        if ('keyword' in step.data) {
+          data.action = step.data.keyword;
         }
       }
 
+      const resultStep: ResultStep = { data, execution };
+
       if (step.steps.length > 0) {
         resultStep.steps = await this.transformSteps(step.steps, testTitle);
       }
@@ -599,6 +1460,10 @@ export class TestOpsReporter extends AbstractReporter {
         attachments: attachmentHashes,
       };
 
+      if (step.execution.comment) {
+        resultStep.comment = step.execution.comment;
+      }
+
       if (step.step_type === StepType.TEXT) {
         if ('action' in step.data) {
           if (step.data.action === '') {
@@ -607,6 +1472,14 @@ export class TestOpsReporter extends AbstractReporter {
           } else {
             resultStep.action = step.data.action;
           }
+
+          if (step.data.expected_result) {
+            resultStep.expected_result = step.data.expected_result;
+          }
+
+          if (step.data.input_data) {
+            resultStep.data = step.data.input_data;
+          }
         }
       }
 
@@ -630,38 +1503,79 @@ export class TestOpsReporter extends AbstractReporter {
     this.logger.log(chalk`{magenta Test '${testTitle}' has empty action in step. The reporter will mark this step as unnamed step.}`);
   }
 
+  /**
+   * Resolves the environment, the milestone and the configurations of the run to their IDs
+   *
+   * @returns {Promise<RunEntitiesType>}
+   * @private
+   */
+  private async provisionRun(): Promise<RunEntitiesType> {
+    const entities: RunEntitiesType = {};
+
+    try {
+      if (this.environment !== undefined) {
+        const environmentId = await this.runProvisioner.getEnvironmentId(this.environment);
+
+        if (environmentId !== undefined) {
+          entities.environment_id = environmentId;
+        }
+      }
+
+      if (this.run.milestone !== undefined) {
+        const milestoneId = await this.runProvisioner.getMilestoneId(this.run.milestone);
+
+        if (milestoneId !== undefined) {
+          entities.milestone_id = milestoneId;
+        }
+      }
+
+      if (this.run.configurations !== undefined) {
+        const configurations = await this.runProvisioner.getConfigurationIds(this.run.configurations);
+
+        if (configurations.length > 0) {
+          entities.configurations = configurations;
+        }
+      }
+    } catch (error) {
+      throw this.processError(error, 'Error on getting the environment, milestone and configurations of the run');
+    }
+
+    return entities;
+  }
+
+  /**
+   * @param {Record<string, string | undefined>} customFields values keyed by the field ID
+   * @returns {Record<string, string>}
+   * @private
+   */
+  private getRunCustomFields(customFields: Record<string, string | undefined>): Record<string, string> {
+    const fields: Record<string, string> = {};
+
+    for (const [id, value] of Object.entries(customFields)) {
+      if (value !== undefined) {
+        fields[id] = value;
+      }
+    }
+
+    return fields;
+  }
+
   /**
    * @param {string} title
    * @param {string} description
-   * @param {number | undefined} environment
+   * @param {RunEntitiesType} entities
    * @returns {Promise<IdResponse>}
    * @private
    */
   private async createRun(
     title: string,
     description: string,
-    environment: number | undefined,
+    entities: RunEntitiesType,
   ): Promise<IdResponse> {
     try {
-      const runObject: RunCreate = {
-        title,
-        description,
-        is_autotest: true,
-        cases: [],
-        start_time: this.getDate(),
-      };
-
-      if (environment !== undefined) {
-        runObject.environment_id = environment;
-      }
-
-      if (this.planId) {
-        runObject.plan_id = this.planId;
-      }
-
       const { data } = await this.api.runs.createRun(
         this.projectCode,
-        runObject,
+        this.getRunObject(title, description, entities),
       );
 
       return data;
@@ -670,6 +1584,40 @@ export class TestOpsReporter extends AbstractReporter {
     }
   }
 
+  /**
+   * @param {string} title
+   * @param {string} description
+   * @param {RunEntitiesType} entities
+   * @returns {RunCreate}
+   * @private
+   */
+  private getRunObject(title: string, description: string, entities: RunEntitiesType): RunCreate {
+    const runObject: RunCreate = {
+      title,
+      description,
+      is_autotest: true,
+      cases: [],
+      start_time: this.getDate(),
+      ...entities,
+    };
+
+    const tags = this.getRunTags();
+
+    if (tags.length > 0) {
+      runObject.tags = tags;
+    }
+
+    if (this.run.customFields !== undefined) {
+      runObject.custom_field = this.getRunCustomFields(this.run.customFields);
+    }
+
+    if (this.planId) {
+      runObject.plan_id = this.planId;
+    }
+
+    return runObject;
+  }
+
   /**
    * @returns {string}
    * @private
@@ -688,7 +1636,8 @@ export class TestOpsReporter extends AbstractReporter {
   }
 
   /**
-   * @returns {Promise<void>}
+   * @param {Attachment[]} attachments
+   * @returns {Promise<string[]>} hashes of the uploaded attachments
    * @private
    */
   private async uploadAttachments(attachments: Attachment[]): Promise<string[]> {
@@ -696,37 +1645,35 @@ export class TestOpsReporter extends AbstractReporter {
       return [];
     }
 
-    const acc: string[] = [];
-    for (const attachment of attachments) {
-      this.logger.logDebug(`Uploading attachment: ${attachment.file_path ?? attachment.file_name}`);
+    if (this.offline) {
+      return this.spoolAttachments(attachments);
+    }
 
-      try {
-        let data: unknown;
-        if (attachment.file_path) {
+    const { hashes, failed } = await this.attachmentUploader.upload(attachments);
+    const unreachable = failed
+      .filter(({ error }) => isUnreachableError(error))
+      .map(({ attachment }) => attachment);
 
-          data = { name: attachment.file_name, value: createReadStream(attachment.file_path) };
-        } else {
-          if (typeof attachment.content === 'string') {
-            data = { name: attachment.file_name, value: Buffer.from(attachment.content) };
-          } else {
-            data = { name: attachment.file_name, value: attachment.content };
-          }
-        }
+    if (this.spool === undefined || unreachable.length === 0) {
+      return hashes;
+    }
 
-        const response = await this.api.attachments.uploadAttachment(
-          this.projectCode,
-          [data],
-        );
+    this.goOffline();
 
-        if (response.data.result?.[0]?.hash != undefined) {
-          acc.push(response.data.result[0].hash);
-        }
+    return [...hashes, ...this.spoolAttachments(unreachable)];
+  }
 
-      } catch (error) {
-        this.logger.logError('Cannot upload attachment:', error);
-      }
-    }
-    return acc;
+  /**
+   * Copies the attachments to the spool, the batch with the results refers to them by the placeholders
+   *
+   * @param {Attachment[]} attachments
+   * @returns {string[]} the placeholders which are replaced with the hashes on replay
+   * @private
+   */
+  private spoolAttachments(attachments: Attachment[]): string[] {
+    const spool = this.spool;
+
+    return spool === undefined ? [] : attachments.map((attachment) => spool.writeAttachment(attachment));
   }
 
   /**
@@ -770,13 +1717,14 @@ export class TestOpsReporter extends AbstractReporter {
   }
 
   /**
+   * @param {number} runId
    * @param {number | null} id
    * @param {string} title
    * @return string
    * @private
    */
-  private prepareFailedTestLink(id: number | null, title: string): string {
-    const baseLink = `${this.baseUrl}/run/${this.projectCode}/dashboard/${this.run.id!}?source=logs&status=%5B2%5D&search=`;
+  private prepareFailedTestLink(runId: number, id: number | null, title: string): string {
+    const baseLink = `${this.baseUrl}/run/${this.projectCode}/dashboard/${runId}?source=logs&status=%5B2%5D&search=`;
     if (id) {
       return `${baseLink}${id}`;
     }
@@ -791,7 +1739,12 @@ export class TestOpsReporter extends AbstractReporter {
    * @private
    */
   private showLink(id: number | null, title: string): void {
-    const link = this.prepareFailedTestLink(id, title);
+    // the run is created on start, there is no link without it
+    if (this.run.id === undefined) {
+      return;
+    }
+
+    const link = this.prepareFailedTestLink(this.run.id, id, title);
     this.logger.log(chalk`{blue See why this test failed: ${link}}`);
   }
 }
@@ -0,0 +1,81 @@
+import { QaseApiInterface, Result } from 'qaseio';
+
+import { TestStatusEnum } from '../models';
+
+const resultsPerPage = 100;
+const failedStatuses: string[] = [TestStatusEnum.failed, TestStatusEnum.invalid];
+
+/**
+ * Cases which failed in an earlier Qase run, used to re-run only those tests
+ *
+ * @class FailedTests
+ */
+export class FailedTests {
+  /**
+   * @param {QaseApiInterface} api
+   * @param {string} projectCode
+   */
+  constructor(
+    private readonly api: QaseApiInterface,
+    private readonly projectCode: string,
+  ) {}
+
+  /**
+   * A case counts as failed if its latest result in the run failed,
+   * so the cases fixed by an earlier re-run into the same run are left out
+   *
+   * @param {number} runId
+   * @returns {Promise<number[]>}
+   */
+  public async getCaseIds(runId: number): Promise<number[]> {
+    const latest = new Map<number, Result>();
+
+    for (const result of await this.getResults(runId)) {
+      if (result.case_id === undefined) {
+        continue;
+      }
+
+      const previous = latest.get(result.case_id);
+
+      if (!previous || (result.end_time ?? '') >= (previous.end_time ?? '')) {
+        latest.set(result.case_id, result);
+      }
+    }
+
+    return [...latest.entries()]
+      .filter(([, { status }]) => status !== undefined && failedStatuses.includes(status))
+      .map(([caseId]) => caseId);
+  }
+
+  /**
+   * @param {number} runId
+   * @returns {Promise<Result[]>}
+   * @private
+   */
+  private async getResults(runId: number): Promise<Result[]> {
+    const results: Result[] = [];
+
+    for (let offset = 0; ; offset += resultsPerPage) {
+      const { data } = await this.api.results.getResults(
+        this.projectCode,
+        undefined,
+        String(runId),
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        resultsPerPage,
+        offset,
+      );
+
+      const entities = data.result?.entities ?? [];
+
+      results.push(...entities);
+
+      if (entities.length < resultsPerPage) {
+        return results;
+      }
+    }
+  }
+}
@@ -0,0 +1 @@
+export { FailedTests } from './failed-tests';
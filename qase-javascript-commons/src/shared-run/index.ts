@@ -0,0 +1 @@
+export { SharedRun, type SharedRunOptionsType } from './shared-run';
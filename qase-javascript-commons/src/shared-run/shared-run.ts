@@ -0,0 +1,224 @@
+import { Milestone, QaseApiInterface } from 'qaseio';
+import { v4 as uuidv4 } from 'uuid';
+
+import { EnvRunEnum } from '../env';
+import { LoggerInterface } from '../utils/logger';
+
+export interface SharedRunOptionsType {
+  key: string;
+  shards?: number | undefined;
+  shard?: string | undefined;
+}
+
+const itemsPerPage = 100;
+const runKeyTagPrefix = 'qase-run-key-';
+const shardMarkerPrefix = 'qase-shard-';
+// the status of a completed run in Qase
+const completedStatus = 1;
+
+/**
+ * A run shared by the shards of a test suite, e.g. the parallel jobs of a CI pipeline.
+ * The run is found by the tag with its key, and is completed by the last shard to finish.
+ *
+ * @class SharedRun
+ */
+export class SharedRun {
+  private readonly tag: string;
+  private readonly shards: number | undefined;
+  private readonly shardId: string;
+
+  /**
+   * @param {LoggerInterface} logger
+   * @param {QaseApiInterface} api
+   * @param {string} projectCode
+   * @param {SharedRunOptionsType} options
+   */
+  constructor(
+    private readonly logger: LoggerInterface,
+    private readonly api: QaseApiInterface,
+    private readonly projectCode: string,
+    options: SharedRunOptionsType,
+  ) {
+    this.tag = `${runKeyTagPrefix}${options.key}`;
+    this.shards = options.shards;
+    this.shardId = options.shard ?? SharedRun.createShardId();
+  }
+
+  /**
+   * @returns {string} the tag of the run with the key
+   */
+  public getTag(): string {
+    return this.tag;
+  }
+
+  /**
+   * @returns {Promise<number | undefined>} the ID of the earliest open run with the key
+   */
+  public async findRunId(): Promise<number | undefined> {
+    const ids: number[] = [];
+
+    for (let offset = 0; ; offset += itemsPerPage) {
+      const { data } = await this.api.runs.getRuns(
+        this.projectCode,
+        undefined,
+        'active',
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        itemsPerPage,
+        offset,
+      );
+      const entities = data.result?.entities ?? [];
+
+      for (const run of entities) {
+        if (run.id !== undefined && run.tags?.some(({ title }) => title === this.tag)) {
+          ids.push(run.id);
+        }
+      }
+
+      if (entities.length < itemsPerPage) {
+        break;
+      }
+    }
+
+    return ids.length > 0 ? Math.min(...ids) : undefined;
+  }
+
+  /**
+   * The shards which started at the same time may have created a run each.
+   * All of them keep the earliest run, and the others are deleted before they have results.
+   *
+   * @param {number} runId the run created by this shard
+   * @returns {Promise<number>} the ID of the shared run
+   */
+  public async settle(runId: number): Promise<number> {
+    const sharedRunId = await this.findRunId();
+
+    if (sharedRunId === undefined || sharedRunId >= runId) {
+      return runId;
+    }
+
+    await this.api.runs.deleteRun(this.projectCode, runId);
+    this.logger.logDebug(`Run ${runId} deleted, run ${sharedRunId} was created by another shard`);
+
+    return sharedRunId;
+  }
+
+  /**
+   * Qase runs can't be changed once they are created, so each finished shard leaves a milestone
+   * with the run ID and the shard ID in its title, and the shard which finds the markers of all the shards
+   * completes the run. The shards on different machines see the same markers.
+   *
+   * @param {number} runId
+   * @returns {Promise<boolean>} whether all the shards have finished and the run can be completed
+   */
+  public async finish(runId: number): Promise<boolean> {
+    if (this.shards === undefined) {
+      return false;
+    }
+
+    const title = `${this.getMarkerPrefix(runId)}${this.shardId}`;
+
+    // the processes of the shard finish one by one
+    if (!(await this.getMarkers(runId)).some((marker) => marker.title === title)) {
+      await this.api.milestones.createMilestone(this.projectCode, {
+        title,
+        description: `Shard ${this.shardId} of run ${runId} has finished, the marker is removed when the run is completed`,
+      });
+    }
+
+    // the markers are read again, the other shards may have finished meanwhile
+    const finished = new Set((await this.getMarkers(runId)).map((marker) => marker.title));
+
+    this.logger.logDebug(`Shards finished: ${finished.size} of ${this.shards}`);
+
+    return finished.size >= this.shards;
+  }
+
+  /**
+   * Completes the run, unless another shard has completed it, and removes the markers of its shards
+   *
+   * @param {number} runId
+   * @returns {Promise<void>}
+   */
+  public async complete(runId: number): Promise<void> {
+    try {
+      await this.api.runs.completeRun(this.projectCode, runId);
+    } catch (error) {
+      if (!(await this.isCompleted(runId))) {
+        throw error;
+      }
+
+      this.logger.logDebug(`Run ${runId} is already completed`);
+    }
+
+    try {
+      for (const { id } of await this.getMarkers(runId)) {
+        if (id !== undefined) {
+          await this.api.milestones.deleteMilestone(this.projectCode, id);
+        }
+      }
+    } catch (error) {
+      this.logger.logError(`Unable to remove the shard markers of run ${runId}:`, error);
+    }
+  }
+
+  /**
+   * @param {number} runId
+   * @returns {Promise<boolean>}
+   * @private
+   */
+  private async isCompleted(runId: number): Promise<boolean> {
+    const { data } = await this.api.runs.getRun(this.projectCode, runId);
+
+    return data.result?.status === completedStatus;
+  }
+
+  /**
+   * @param {number} runId
+   * @returns {Promise<Milestone[]>} the markers of the finished shards of the run
+   * @private
+   */
+  private async getMarkers(runId: number): Promise<Milestone[]> {
+    const prefix = this.getMarkerPrefix(runId);
+    const markers: Milestone[] = [];
+
+    for (let offset = 0; ; offset += itemsPerPage) {
+      const { data } = await this.api.milestones.getMilestones(this.projectCode, prefix, itemsPerPage, offset);
+      const entities = data.result?.entities ?? [];
+
+      // the search may match the titles which only contain the prefix
+      markers.push(...entities.filter((milestone) => milestone.title?.startsWith(prefix)));
+
+      if (entities.length < itemsPerPage) {
+        break;
+      }
+    }
+
+    return markers;
+  }
+
+  /**
+   * @param {number} runId
+   * @returns {string}
+   * @private
+   */
+  private getMarkerPrefix(runId: number): string {
+    return `${shardMarkerPrefix}${runId}-`;
+  }
+
+  /**
+   * The processes started by the reporter's process, e.g. the workers, inherit the shard ID
+   *
+   * @returns {string}
+   * @private
+   */
+  private static createShardId(): string {
+    const shardId = uuidv4();
+
+    process.env[EnvRunEnum.shard] = shardId;
+
+    return shardId;
+  }
+}
@@ -0,0 +1 @@
+export { ShutdownHandler, type ShutdownOptionsType } from './shutdown-handler';
@@ -0,0 +1,136 @@
+import chalk from 'chalk';
+
+import { LoggerInterface } from '../utils/logger';
+
+export interface ShutdownOptionsType {
+  enabled?: boolean | undefined;
+  timeout?: number | undefined;
+  completeRun?: boolean | undefined;
+  report?: boolean | undefined;
+}
+
+type ShutdownEventType = 'SIGINT' | 'SIGTERM' | 'unhandledRejection' | 'uncaughtException';
+
+const defaultTimeout = 10_000;
+
+/**
+ * Exit codes of the process terminated by the event, as if it had no listener
+ */
+const exitCodes: Record<ShutdownEventType, number> = {
+  SIGINT: 130,
+  SIGTERM: 143,
+  unhandledRejection: 1,
+  uncaughtException: 1,
+};
+
+/**
+ * Runs the callback, e.g. to publish the buffered results, when the test process is interrupted by a signal
+ * or crashes. The callback has a time budget, then the process exits the way it would without the handler.
+ *
+ * @class ShutdownHandler
+ */
+export class ShutdownHandler {
+  /**
+   * Removes the registered listeners
+   * @type {(() => void)[]}
+   * @private
+   */
+  private removers: (() => void)[] = [];
+
+  private isShuttingDown = false;
+
+  /**
+   * @param {LoggerInterface} logger
+   * @param {(reason: string) => Promise<void>} callback
+   * @param {number} timeout ms to wait for the callback
+   */
+  constructor(
+    private readonly logger: LoggerInterface,
+    private readonly callback: (reason: string) => Promise<void>,
+    private readonly timeout: number = defaultTimeout,
+  ) {}
+
+  public register(): void {
+    const onSigint = (): void => void this.shutdown('SIGINT');
+    const onSigterm = (): void => void this.shutdown('SIGTERM');
+    const onRejection = (reason: unknown): void => void this.shutdown('unhandledRejection', reason);
+    const onException = (error: Error): void => void this.shutdown('uncaughtException', error);
+
+    process.on('SIGINT', onSigint);
+    process.on('SIGTERM', onSigterm);
+    process.on('unhandledRejection', onRejection);
+    process.on('uncaughtException', onException);
+
+    this.removers = [
+      () => process.removeListener('SIGINT', onSigint),
+      () => process.removeListener('SIGTERM', onSigterm),
+      () => process.removeListener('unhandledRejection', onRejection),
+      () => process.removeListener('uncaughtException', onException),
+    ];
+  }
+
+  /**
+   * Removes the listeners, e.g. once the results are published
+   */
+  public dispose(): void {
+    for (const remove of this.removers) {
+      remove();
+    }
+
+    this.removers = [];
+  }
+
+  /**
+   * @param {ShutdownEventType} event
+   * @param {unknown} error the reason of the rejection or the exception
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async shutdown(event: ShutdownEventType, error?: unknown): Promise<void> {
+    const isSignal = event === 'SIGINT' || event === 'SIGTERM';
+    // the other listeners, e.g. of the test framework, handle the event and decide whether the process exits
+    const isHandled = process.listenerCount(event) > 1;
+    const exitCode = isHandled ? undefined : exitCodes[event];
+
+    if (!isSignal) {
+      // the test framework carries on after the errors it handles
+      if (isHandled) {
+        return;
+      }
+
+      this.logger.logError(event === 'unhandledRejection' ? 'Unhandled rejection:' : 'Uncaught exception:', error);
+    }
+
+    // a second signal doesn't wait for the results
+    if (this.isShuttingDown) {
+      if (exitCode !== undefined) {
+        process.exit(exitCode);
+      }
+
+      return;
+    }
+
+    this.isShuttingDown = true;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), this.timeout);
+    });
+
+    try {
+      const isFinished = await Promise.race([this.callback(event).then(() => true), timeout]);
+
+      if (!isFinished) {
+        this.logger.log(chalk`{yellow The results were not published in ${this.timeout} ms}`);
+      }
+    } catch (error) {
+      this.logger.logError('Unable to publish the results on shutdown:', error);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (exitCode !== undefined) {
+      process.exit(exitCode);
+    }
+  }
+}
@@ -0,0 +1,9 @@
+export {
+  Spool,
+  getAttachmentHashLists,
+  spoolAttachmentPrefix,
+  type SpoolBatchType,
+  type SpoolManifestType,
+  type SpoolRunEntitiesType,
+} from './spool';
+export { SpoolReplayer } from './spool-replayer';
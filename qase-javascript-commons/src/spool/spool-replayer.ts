@@ -0,0 +1,191 @@
+import { createReadStream } from 'fs';
+
+import chalk from 'chalk';
+import { QaseApiInterface, RunCreate } from 'qaseio';
+
+import { getAttachmentHashLists, Spool, SpoolManifestType, spoolAttachmentPrefix } from './spool';
+
+import { RunProvisioner } from '../provision';
+import { LoggerInterface } from '../utils/logger';
+import { QaseError } from '../utils/qase-error';
+
+/**
+ * Upload the spooled results to Qase
+ *
+ * @class SpoolReplayer
+ */
+export class SpoolReplayer {
+  /**
+   * @param {LoggerInterface} logger
+   * @param {QaseApiInterface} api
+   */
+  constructor(
+    private readonly logger: LoggerInterface,
+    private readonly api: QaseApiInterface,
+  ) {}
+
+  /**
+   * Replay all sessions stored in the spool directory
+   *
+   * @param {string} rootPath
+   * @returns {Promise<number>} count of replayed sessions
+   */
+  public async replay(rootPath: string): Promise<number> {
+    const sessions = Spool.getSessions(rootPath);
+
+    if (sessions.length === 0) {
+      this.logger.log(chalk`{yellow No spooled results found in ${rootPath}}`);
+      return 0;
+    }
+
+    for (const session of sessions) {
+      await this.replaySession(new Spool(rootPath, session));
+    }
+
+    return sessions.length;
+  }
+
+  /**
+   * @param {Spool} spool
+   * @returns {Promise<void>}
+   */
+  public async replaySession(spool: Spool): Promise<void> {
+    const manifest = spool.readManifest();
+
+    if (manifest.runId === null) {
+      manifest.runId = await this.createRun(manifest);
+      // save the run ID right away, so an interrupted replay doesn't create another run
+      spool.writeManifest(manifest);
+      this.logger.log(chalk`{green Run ${manifest.runId} created}`);
+    }
+
+    const runId = manifest.runId;
+
+    for (const name of spool.getBatches()) {
+      const batch = spool.readBatch(name);
+
+      for (const attachments of getAttachmentHashLists(batch)) {
+        for (const [index, hash] of attachments.entries()) {
+          if (hash.startsWith(spoolAttachmentPrefix)) {
+            attachments[index] = await this.uploadAttachment(spool, manifest, hash);
+          }
+        }
+      }
+
+      try {
+        if (batch.useV2) {
+          await this.api.result.createResultsV2(manifest.project, runId, { results: batch.results });
+        } else {
+          await this.api.results.createResultBulk(manifest.project, runId, { results: batch.results });
+        }
+      } catch (error) {
+        throw new QaseError(`Error on uploading results from ${name}`, { cause: error });
+      }
+
+      spool.removeBatch(name);
+      this.logger.log(`Results sent to Qase: ${batch.results.length}`);
+    }
+
+    if (manifest.complete) {
+      try {
+        await this.api.runs.completeRun(manifest.project, runId);
+        this.logger.log(chalk`{green Run ${runId} completed}`);
+      } catch (error) {
+        throw new QaseError('Error on completing run', { cause: error });
+      }
+    }
+
+    spool.remove();
+  }
+
+  /**
+   * Create the run with the spooled payload, the entities are resolved now that Qase is reachable
+   *
+   * @param {SpoolManifestType} manifest
+   * @returns {Promise<number>}
+   * @private
+   */
+  private async createRun(manifest: SpoolManifestType): Promise<number> {
+    const { project, run, entities } = manifest;
+    const provisioner = new RunProvisioner(this.logger, this.api, project, { create: entities.provision });
+    const runObject: RunCreate = { ...run };
+
+    try {
+      if (entities.environment !== undefined) {
+        const environmentId = await provisioner.getEnvironmentId(entities.environment);
+
+        if (environmentId !== undefined) {
+          runObject.environment_id = environmentId;
+        }
+      }
+
+      if (entities.milestone !== undefined) {
+        const milestoneId = await provisioner.getMilestoneId(entities.milestone);
+
+        if (milestoneId !== undefined) {
+          runObject.milestone_id = milestoneId;
+        }
+      }
+
+      if (entities.configurations !== undefined) {
+        const configurations = await provisioner.getConfigurationIds(entities.configurations);
+
+        if (configurations.length > 0) {
+          runObject.configurations = configurations;
+        }
+      }
+
+      const { data } = await this.api.runs.createRun(project, runObject);
+
+      if (data.result?.id == undefined) {
+        throw new Error('Cannot create run.');
+      }
+
+      return data.result.id;
+    } catch (error) {
+      throw new QaseError('Error on creating run', { cause: error });
+    }
+  }
+
+  /**
+   * The hash is saved to the manifest right away, so an interrupted replay doesn't upload the attachment again
+   *
+   * @param {Spool} spool
+   * @param {SpoolManifestType} manifest
+   * @param {string} placeholder
+   * @returns {Promise<string>}
+   * @private
+   */
+  private async uploadAttachment(
+    spool: Spool,
+    manifest: SpoolManifestType,
+    placeholder: string,
+  ): Promise<string> {
+    const uploaded = manifest.attachments[placeholder];
+
+    if (uploaded !== undefined) {
+      return uploaded;
+    }
+
+    const attachment = spool.getAttachment(placeholder);
+
+    try {
+      const { data } = await this.api.attachments.uploadAttachment(
+        manifest.project,
+        [{ name: attachment.name, value: createReadStream(attachment.path) }],
+      );
+      const hash = data.result?.[0]?.hash;
+
+      if (hash == undefined) {
+        throw new Error('Empty response');
+      }
+
+      manifest.attachments[placeholder] = hash;
+      spool.writeManifest(manifest);
+
+      return hash;
+    } catch (error) {
+      throw new QaseError(`Cannot upload attachment ${attachment.name}`, { cause: error });
+    }
+  }
+}
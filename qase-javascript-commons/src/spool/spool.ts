@@ -0,0 +1,284 @@
+import {
+  copyFileSync,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmdirSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import * as path from 'path';
+
+import { v4 as uuidv4 } from 'uuid';
+import { ResultCreate, ResultCreateV2, RunCreate } from 'qaseio';
+
+import { Attachment } from '../models';
+
+export const spoolAttachmentPrefix = 'spool:';
+
+const manifestFileName = 'manifest.json';
+const batchesDir = 'batches';
+const attachmentsDir = 'attachments';
+
+export interface SpoolRunEntitiesType {
+  environment?: string | undefined;
+  milestone?: string | undefined;
+  configurations?: Record<string, string | undefined> | undefined;
+  provision?: boolean | undefined;
+}
+
+export interface SpoolManifestType {
+  project: string;
+  runId: number | null;
+  // the payload the run is created with, the entities are resolved to their IDs on replay
+  run: RunCreate;
+  entities: SpoolRunEntitiesType;
+  complete: boolean;
+  // the hashes of the attachments uploaded by an earlier replay, keyed by the placeholder
+  attachments: Record<string, string>;
+}
+
+export type SpoolBatchType =
+  | { useV2: true; results: ResultCreateV2[] }
+  | { useV2: false; results: ResultCreate[] };
+
+interface ItemWithAttachmentsType {
+  attachments?: string[] | null;
+  execution?: object;
+  steps?: object[] | null;
+}
+
+/**
+ * @param {ItemWithAttachmentsType} item
+ * @param {string[][]} lists
+ */
+const collectAttachmentHashLists = (item: ItemWithAttachmentsType, lists: string[][]): void => {
+  if (item.attachments) {
+    lists.push(item.attachments);
+  }
+
+  // V2 steps keep the attachments in the execution
+  const execution = item.execution as { attachments?: string[] } | undefined;
+
+  if (execution?.attachments) {
+    lists.push(execution.attachments);
+  }
+
+  for (const step of item.steps ?? []) {
+    collectAttachmentHashLists(step, lists);
+  }
+};
+
+/**
+ * Get the attachment hash lists of the results and all their steps
+ *
+ * @param {SpoolBatchType} batch
+ * @returns {string[][]}
+ */
+export const getAttachmentHashLists = (batch: SpoolBatchType): string[][] => {
+  const lists: string[][] = [];
+
+  for (const result of batch.results) {
+    collectAttachmentHashLists(result, lists);
+  }
+
+  return lists;
+};
+
+/**
+ * On-disk storage of the results which could not be sent to Qase.
+ * Each session is stored in its own directory:
+ *
+ * <path>/<session>/manifest.json - the payload of the run and the hashes of the attachments uploaded on replay
+ * <path>/<session>/batches/*.json - the payloads of the API requests
+ * <path>/<session>/attachments/* - the attachments which were not uploaded
+ *
+ * @class Spool
+ */
+export class Spool {
+  /**
+   * @param {string} rootPath
+   * @returns {string[]}
+   */
+  static getSessions(rootPath: string): string[] {
+    if (!existsSync(rootPath)) {
+      return [];
+    }
+
+    return readdirSync(rootPath)
+      .filter((session) => existsSync(path.join(rootPath, session, manifestFileName)))
+      .sort();
+  }
+
+  /**
+   * @type {string}
+   */
+  public readonly path: string;
+
+  private batchCount = 0;
+
+  /**
+   * @param {string} rootPath
+   * @param {string} session
+   */
+  constructor(rootPath: string, session = `${Date.now()}-${uuidv4()}`) {
+    this.path = path.join(rootPath, session);
+  }
+
+  /**
+   * @returns {boolean}
+   */
+  exists(): boolean {
+    return existsSync(path.join(this.path, manifestFileName));
+  }
+
+  /**
+   * @param {SpoolManifestType} manifest
+   */
+  writeManifest(manifest: SpoolManifestType): void {
+    this.writeJson(path.join(this.path, manifestFileName), manifest);
+  }
+
+  /**
+   * @returns {SpoolManifestType}
+   */
+  readManifest(): SpoolManifestType {
+    return this.readJson<SpoolManifestType>(path.join(this.path, manifestFileName));
+  }
+
+  /**
+   * @param {SpoolBatchType} batch
+   */
+  writeBatch(batch: SpoolBatchType): void {
+    this.writeJson(
+      // the counter keeps the order of the batches written in the same millisecond
+      path.join(this.path, batchesDir, `${Date.now()}-${String(this.batchCount++).padStart(6, '0')}-${uuidv4()}.json`),
+      batch,
+    );
+  }
+
+  /**
+   * @returns {string[]}
+   */
+  getBatches(): string[] {
+    const batchesPath = path.join(this.path, batchesDir);
+
+    if (!existsSync(batchesPath)) {
+      return [];
+    }
+
+    return readdirSync(batchesPath)
+      .filter((file) => file.endsWith('.json'))
+      .sort();
+  }
+
+  /**
+   * @param {string} name
+   * @returns {SpoolBatchType}
+   */
+  readBatch(name: string): SpoolBatchType {
+    return this.readJson<SpoolBatchType>(path.join(this.path, batchesDir, name));
+  }
+
+  /**
+   * @param {string} name
+   */
+  removeBatch(name: string): void {
+    unlinkSync(path.join(this.path, batchesDir, name));
+  }
+
+  /**
+   * Copy the attachment to the spool
+   *
+   * @param {Attachment} attachment
+   * @returns {string} placeholder which is used instead of the attachment hash
+   */
+  writeAttachment(attachment: Attachment): string {
+    const attachmentsPath = path.join(this.path, attachmentsDir);
+    mkdirSync(attachmentsPath, { recursive: true });
+
+    const fileName = attachment.file_path
+      ? path.basename(attachment.file_path)
+      : attachment.file_name;
+    const spooledName = `${uuidv4()}-${fileName}`;
+    const filePath = path.join(attachmentsPath, spooledName);
+
+    if (attachment.file_path) {
+      copyFileSync(attachment.file_path, filePath);
+    } else {
+      writeFileSync(filePath, attachment.content);
+    }
+
+    return `${spoolAttachmentPrefix}${spooledName}`;
+  }
+
+  /**
+   * @param {string} placeholder
+   * @returns {{ name: string, path: string }}
+   */
+  getAttachment(placeholder: string): { name: string, path: string } {
+    const spooledName = placeholder.substring(spoolAttachmentPrefix.length);
+
+    return {
+      // strip the uuid prefix added by `writeAttachment`
+      name: spooledName.substring(37),
+      path: path.join(this.path, attachmentsDir, spooledName),
+    };
+  }
+
+  /**
+   * @returns {void}
+   */
+  remove(): void {
+    this.deleteFolderRecursive(this.path);
+  }
+
+  /**
+   * Write the file atomically, so a crash never leaves a truncated file behind
+   *
+   * @param {string} filePath
+   * @param {unknown} data
+   * @private
+   */
+  private writeJson(filePath: string, data: unknown): void {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const tmpPath = `${filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(data));
+    renameSync(tmpPath, filePath);
+  }
+
+  /**
+   * @param {string} directoryPath
+   * @private
+   */
+  private deleteFolderRecursive(directoryPath: string): void {
+    if (!existsSync(directoryPath)) {
+      return;
+    }
+
+    for (const file of readdirSync(directoryPath)) {
+      const curPath = path.join(directoryPath, file);
+
+      if (lstatSync(curPath).isDirectory()) {
+        this.deleteFolderRecursive(curPath);
+      } else {
+        unlinkSync(curPath);
+      }
+    }
+
+    rmdirSync(directoryPath);
+  }
+
+  /**
+   * @param {string} filePath
+   * @returns {T}
+   * @private
+   */
+  private readJson<T>(filePath: string): T {
+    return JSON.parse(readFileSync(filePath, 'utf8')) as T;
+  }
+}
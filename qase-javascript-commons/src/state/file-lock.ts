@@ -0,0 +1,145 @@
+import { closeSync, openSync, readFileSync, statSync, unlinkSync, writeSync } from 'fs';
+
+const retryDelay = 20;
+
+/**
+ * @param {number} ms
+ */
+const sleepSync = (ms: number): void => {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+};
+
+/**
+ * @param {number} ms
+ * @returns {Promise<void>}
+ */
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * @param {unknown} error
+ * @returns {string | undefined}
+ */
+const getErrorCode = (error: unknown): string | undefined => (error as NodeJS.ErrnoException | undefined)?.code;
+
+/**
+ * @param {number} pid
+ * @returns {boolean}
+ */
+export const isProcessRunning = (pid: number): boolean => {
+  try {
+    // the signal 0 only checks that the process exists
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return getErrorCode(error) === 'EPERM';
+  }
+};
+
+/**
+ * A lock shared by the processes, held while the lock file exists.
+ * The file keeps the ID of the holder, so the lock of a process which has died is taken over.
+ *
+ * @class FileLock
+ */
+export class FileLock {
+  /**
+   * @param {string} path
+   * @param {number} staleAfter ms after which the lock is taken over even if its holder is running
+   */
+  constructor(
+    private readonly path: string,
+    private readonly staleAfter: number,
+  ) {}
+
+  /**
+   * Blocks the event loop while waiting, so the synchronous callers wait a short time
+   *
+   * @param {number} timeout ms, by default a stale lock is taken over before it
+   */
+  public acquireSync(timeout: number = 2 * this.staleAfter): void {
+    const deadline = Date.now() + timeout;
+
+    while (!this.tryAcquire()) {
+      if (Date.now() > deadline) {
+        throw new Error(`Unable to acquire the lock ${this.path} in ${timeout} ms`);
+      }
+
+      sleepSync(retryDelay);
+    }
+  }
+
+  /**
+   * @param {number} timeout ms, by default a stale lock is taken over before it
+   * @returns {Promise<void>}
+   */
+  public async acquire(timeout: number = 2 * this.staleAfter): Promise<void> {
+    const deadline = Date.now() + timeout;
+
+    while (!this.tryAcquire()) {
+      if (Date.now() > deadline) {
+        throw new Error(`Unable to acquire the lock ${this.path} in ${timeout} ms`);
+      }
+
+      await sleep(retryDelay);
+    }
+  }
+
+  public release(): void {
+    try {
+      unlinkSync(this.path);
+    } catch (error) {
+      if (getErrorCode(error) !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * @returns {boolean}
+   * @private
+   */
+  private tryAcquire(): boolean {
+    try {
+      const fd = openSync(this.path, 'wx');
+
+      writeSync(fd, String(process.pid));
+      closeSync(fd);
+
+      return true;
+    } catch (error) {
+      if (getErrorCode(error) !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    if (this.isStale()) {
+      this.release();
+    }
+
+    return false;
+  }
+
+  /**
+   * @returns {boolean}
+   * @private
+   */
+  private isStale(): boolean {
+    try {
+      const pid = Number(readFileSync(this.path, 'utf8'));
+
+      // the holder may not have written its ID yet
+      if (pid > 0 && !isProcessRunning(pid)) {
+        return true;
+      }
+
+      return Date.now() - statSync(this.path).mtimeMs > this.staleAfter;
+    } catch (error) {
+      // released meanwhile
+      if (getErrorCode(error) === 'ENOENT') {
+        return false;
+      }
+
+      throw error;
+    }
+  }
+}
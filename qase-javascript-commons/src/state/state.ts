@@ -1,69 +1,334 @@
-import { ModeEnum } from '../options';
-import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { ModeType } from '../options';
+import { LoggerInterface } from '../utils/logger';
+import { FileLock, isProcessRunning } from './file-lock';
 
 export interface StateModel {
   RunId: number | undefined;
-  Mode: ModeEnum | undefined;
+  Mode: ModeType | undefined;
   IsModeChanged: boolean | undefined;
 }
 
-const statePath = 'reporterState.json';
+interface StateFileType extends StateModel {
+  // the process which created the state, only it clears the state
+  Owner: number;
+  // the process which is creating the test run
+  RunCreator?: number | undefined;
+}
+
+interface RunClaimType {
+  // the run created by another process
+  runId: number | undefined;
+  // whether another process is creating the run
+  waiting: boolean;
+}
+
+/**
+ * The processes started by the reporter's process, e.g. the workers, inherit the session ID
+ */
+const sessionEnv = 'QASE_SESSION_ID';
+const stateFileName = 'state.json';
+// the lock is held while the state is read and written, the lock of a process which has died is taken over at once
+const stateLockStaleAfter = 5_000;
+// the synchronous changes block the event loop while they wait for the lock
+const stateLockWait = 1_000;
+// the other processes wait for the run while it's created, then create it themselves
+const runClaimTimeout = 120_000;
+const runClaimDelay = 100;
 
+/**
+ * @param {number} ms
+ * @returns {Promise<void>}
+ */
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * State of the test run shared by the processes of a session,
+ * e.g. the main process and the workers of the test framework
+ */
 export class StateManager {
+  /**
+   * @type {LoggerInterface | undefined}
+   * @private
+   */
+  private static logger: LoggerInterface | undefined;
 
-  static getState(): StateModel {
-    let state: StateModel = {
-      RunId: undefined,
-      Mode: undefined,
-      IsModeChanged: undefined,
-    };
+  /**
+   * @param {LoggerInterface} logger
+   */
+  static setLogger(logger: LoggerInterface): void {
+    this.logger = logger;
+  }
 
-    try {
-      const data = readFileSync(statePath, 'utf8');
-      state = JSON.parse(data) as StateModel;
-    } catch (err) {
-      console.error('Error reading state file:', err);
+  /**
+   * A session is keyed by the `QASE_SESSION_ID` environment variable,
+   * by default by the working directory and the run ID or the parent process, e.g. the shell running the tests
+   *
+   * @returns {string}
+   */
+  static getSessionId(): string {
+    let sessionId = process.env[sessionEnv]?.replace(/[^\w.-]/g, '_');
+
+    if (!sessionId) {
+      const run = process.env['QASE_TESTOPS_RUN_ID'] ?? `pid-${process.ppid}`;
+
+      sessionId = createHash('sha1').update(`${process.cwd()}:${run}`).digest('hex').slice(0, 12);
+      process.env[sessionEnv] = sessionId;
     }
-    return state;
+
+    return sessionId;
+  }
+
+  /**
+   * @returns {string}
+   */
+  static getSessionDir(): string {
+    return join(tmpdir(), 'qase-reporter', this.getSessionId());
+  }
+
+  static getState(): StateModel {
+    const state = this.readState();
+
+    return {
+      RunId: state?.RunId,
+      Mode: state?.Mode,
+      IsModeChanged: state?.IsModeChanged,
+    };
   }
 
   static setRunId(runId: number): void {
-    const state = this.getState();
-    state.RunId = runId;
-    this.setState(state);
+    this.update((state) => ({ ...state, RunId: runId }));
   }
 
-  static setMode(mode: ModeEnum): void {
-    const state = this.getState();
-    state.Mode = mode;
-    state.IsModeChanged = true;
-    this.setState(state);
+  static setMode(mode: ModeType | undefined): void {
+    this.update((state) => ({ ...state, Mode: mode, IsModeChanged: true }));
   }
 
   static setIsModeChanged(isModeChanged: boolean): void {
-    const state = this.getState();
-    state.IsModeChanged = isModeChanged;
-    this.setState(state);
+    this.update((state) => ({ ...state, IsModeChanged: isModeChanged }));
   }
 
   static setState(state: StateModel): void {
+    this.update(() => state);
+  }
+
+  /**
+   * Creates the state of the session, unless another process has created it
+   *
+   * @param {StateModel} state
+   */
+  static initState(state: StateModel): void {
+    this.withStateLock('create the session state', () => {
+      if (!this.readState()) {
+        this.writeState({ ...state, Owner: process.pid });
+      }
+    });
+  }
+
+  /**
+   * Only the process which created the state clears it, the other processes may still need it
+   */
+  static clearState(): void {
+    this.withStateLock('clear the session state', () => {
+      if (this.readState()?.Owner === process.pid) {
+        unlinkSync(this.getStatePath());
+      }
+    });
+  }
+
+  static isStateExists(): boolean {
+    return this.readState() !== undefined;
+  }
+
+  /**
+   * Reserves the creation of the test run for this process, so the processes of the session create it once.
+   * The lock is held only while the state is read and written, the run is created without it.
+   *
+   * @returns {Promise<number | undefined>} the run created by another process, `undefined` if this process creates the run
+   */
+  static async claimRun(): Promise<number | undefined> {
+    const deadline = Date.now() + runClaimTimeout;
+
+    for (;;) {
+      // the lock is awaited, the other processes may be holding it
+      const claim = await this.withStateLockAsync('claim the creation of the test run', (): RunClaimType => {
+        const state = this.readState();
+        const creator = state?.RunCreator;
+
+        if (state?.RunId !== undefined) {
+          return { runId: state.RunId, waiting: false };
+        }
+
+        if (creator !== undefined && creator !== process.pid && isProcessRunning(creator) && Date.now() < deadline) {
+          return { runId: undefined, waiting: true };
+        }
+
+        this.writeState({
+          RunId: undefined,
+          Mode: state?.Mode,
+          IsModeChanged: state?.IsModeChanged,
+          Owner: state?.Owner ?? process.pid,
+          RunCreator: process.pid,
+        });
+
+        return { runId: undefined, waiting: false };
+      });
+
+      // without the state this process creates the run
+      if (!claim?.waiting) {
+        return claim?.runId;
+      }
+
+      await sleep(runClaimDelay);
+    }
+  }
+
+  /**
+   * Lets another process create the run, if this process has failed to
+   */
+  static releaseRun(): void {
+    this.withStateLock('release the creation of the test run', () => {
+      const state = this.readState();
+
+      if (state?.RunCreator === process.pid) {
+        this.writeState({ ...state, RunCreator: undefined });
+      }
+    });
+  }
+
+  /**
+   * @param {(state: StateModel) => StateModel} change
+   * @private
+   */
+  private static update(change: (state: StateModel) => StateModel): void {
+    this.withStateLock('update the session state', () => {
+      const state = this.readState();
+
+      this.writeState({
+        ...change(state ?? { RunId: undefined, Mode: undefined, IsModeChanged: undefined }),
+        Owner: state?.Owner ?? process.pid,
+      });
+    });
+  }
+
+  /**
+   * @returns {StateFileType | undefined} the state, unless it is left by a session which has ended
+   * @private
+   */
+  private static readState(): StateFileType | undefined {
+    let state: StateFileType;
+
     try {
-      const data = JSON.stringify(state);
-      writeFileSync(statePath, data);
+      state = JSON.parse(readFileSync(this.getStatePath(), 'utf8')) as StateFileType;
     } catch (err) {
-      console.error('Error writing state file:', err);
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger?.logError('Unable to read the session state:', err);
+      }
+
+      return undefined;
+    }
+
+    // the process which created the state has exited without clearing it
+    if (!isProcessRunning(state.Owner)) {
+      return undefined;
     }
+
+    return state;
   }
 
-  static clearState(): void {
+  /**
+   * The state is written to a temporary file and renamed, so it is never read half-written
+   *
+   * @param {StateFileType} state
+   * @private
+   */
+  private static writeState(state: StateFileType): void {
+    const statePath = this.getStatePath();
+    const tempPath = `${statePath}.${process.pid}.tmp`;
+
+    writeFileSync(tempPath, JSON.stringify(state));
+    renameSync(tempPath, statePath);
+  }
+
+  /**
+   * @param {string} action
+   * @param {() => T} callback
+   * @returns {T | undefined} the result of the callback, `undefined` if the state is not available
+   * @private
+   */
+  private static withStateLock<T>(action: string, callback: () => T): T | undefined {
     try {
-      unlinkSync(statePath);
+      const lock = this.createLock();
+
+      lock.acquireSync(stateLockWait);
+
+      try {
+        return callback();
+      } finally {
+        lock.release();
+      }
     } catch (err) {
-      console.error('Error clearing state file:', err);
+      this.logger?.logError(`Unable to ${action}:`, err);
+
+      return undefined;
     }
   }
 
-  static isStateExists(): boolean {
-    return existsSync(statePath);
+  /**
+   * @param {string} action
+   * @param {() => T} callback
+   * @returns {Promise<T | undefined>} the result of the callback, `undefined` if the state is not available
+   * @private
+   */
+  private static async withStateLockAsync<T>(action: string, callback: () => T): Promise<T | undefined> {
+    try {
+      const lock = this.createLock();
+
+      await lock.acquire();
+
+      try {
+        return callback();
+      } finally {
+        lock.release();
+      }
+    } catch (err) {
+      this.logger?.logError(`Unable to ${action}:`, err);
+
+      return undefined;
+    }
+  }
+
+  /**
+   * @returns {FileLock}
+   * @private
+   */
+  private static createLock(): FileLock {
+    return new FileLock(join(this.ensureSessionDir(), 'state.lock'), stateLockStaleAfter);
+  }
+
+  /**
+   * @returns {string}
+   * @private
+   */
+  private static ensureSessionDir(): string {
+    const sessionDir = this.getSessionDir();
+
+    if (!existsSync(sessionDir)) {
+      mkdirSync(sessionDir, { recursive: true });
+    }
+
+    return sessionDir;
+  }
+
+  /**
+   * @returns {string}
+   * @private
+   */
+  private static getStatePath(): string {
+    return join(this.getSessionDir(), stateFileName);
   }
 }
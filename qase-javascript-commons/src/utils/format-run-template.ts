@@ -0,0 +1,66 @@
+import { execSync } from 'child_process';
+
+import { detectCi } from '../ci';
+
+/**
+ * Values of the placeholders, computed only if the template has them
+ */
+export type RunTemplateValuesType = Record<string, () => string | undefined>;
+
+/**
+ * @param {string} command
+ * @returns {string | undefined}
+ */
+const git = (command: string): string | undefined => {
+  try {
+    return execSync(`git ${command}`, { encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * @param {{ framework: string, environment?: string | undefined }} run
+ * @returns {RunTemplateValuesType}
+ */
+export const getRunTemplateValues = (
+  run: { framework: string, environment?: string | undefined },
+): RunTemplateValuesType => {
+  const date = new Date().toISOString();
+  // CI systems often check out a detached HEAD, so their variables go first
+  const ci = detectCi();
+
+  return {
+    branch: () => {
+      const branch = ci?.branch ?? git('rev-parse --abbrev-ref HEAD');
+
+      // a detached HEAD has no branch
+      return branch === 'HEAD' ? undefined : branch;
+    },
+    commit: () => ci?.commit ?? git('rev-parse HEAD'),
+    ci: () => ci?.name,
+    build: () => ci?.buildUrl,
+    job: () => ci?.jobName,
+    pr: () => ci?.pullRequest,
+    author: () => ci?.author,
+    env: () => run.environment,
+    date: () => date,
+    framework: () => run.framework,
+  };
+};
+
+/**
+ * Replaces the `{name}` placeholders with their values, e.g. `Nightly run of {branch}`.
+ * The placeholders without a value are replaced with an empty string, the unknown ones are kept.
+ *
+ * @param {string} template
+ * @param {RunTemplateValuesType} values
+ * @returns {string}
+ */
+export const formatRunTemplate = (template: string, values: RunTemplateValuesType): string => {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = values[name];
+
+    return value ? value() ?? '' : placeholder;
+  });
+};
@@ -0,0 +1,21 @@
+import { isAxiosError } from './is-axios-error';
+import { QaseError } from './qase-error';
+
+/**
+ * Qase is unreachable when a request gets no response, e.g. on a network error or a timeout,
+ * or gets a server error. The other errors, e.g. of the token or the payload, would happen again later.
+ *
+ * @param {unknown} error the error of the request or the QaseError caused by it
+ * @returns {boolean}
+ */
+export const isUnreachableError = (error: unknown): boolean => {
+  const cause = error instanceof QaseError ? error.cause : error;
+
+  if (!isAxiosError(cause)) {
+    return false;
+  }
+
+  const status = cause.response?.status;
+
+  return status === undefined || status >= 500;
+};
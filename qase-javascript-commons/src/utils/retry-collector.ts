@@ -0,0 +1,157 @@
+import { Attachment, TestAttemptType, TestResultType, TestStatusEnum } from '../models';
+
+/**
+ * Keeps the attempts of retried tests until their final result is reported
+ *
+ * @class RetryCollector
+ */
+export class RetryCollector {
+  /**
+   * @type {Map<string, TestResultType[]>}
+   * @private
+   */
+  private attempts = new Map<string, TestResultType[]>();
+
+  /**
+   * @param {TestResultType} result attempt which is going to be retried
+   */
+  public addAttempt(result: TestResultType): void {
+    const key = RetryCollector.getKey(result);
+    const attempts = this.attempts.get(key);
+
+    if (attempts) {
+      attempts.push(result);
+    } else {
+      this.attempts.set(key, [result]);
+    }
+  }
+
+  /**
+   * Attaches the earlier attempts to the final result of the test
+   *
+   * @param {TestResultType} result
+   * @returns {TestResultType}
+   */
+  public complete(result: TestResultType): TestResultType {
+    const key = RetryCollector.getKey(result);
+    const attempts = this.attempts.get(key);
+
+    if (!attempts) {
+      return result;
+    }
+
+    this.attempts.delete(key);
+
+    return RetryCollector.attach(result, attempts);
+  }
+
+  /**
+   * The last attempts of the tests which have not reported the final result yet,
+   * the collector keeps them
+   *
+   * @returns {TestResultType[]}
+   */
+  public getPending(): TestResultType[] {
+    const results: TestResultType[] = [];
+
+    for (const attempts of this.attempts.values()) {
+      const last = attempts[attempts.length - 1];
+
+      if (last) {
+        results.push(RetryCollector.attach({ ...last }, attempts.slice(0, -1)));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * The last attempts of the tests which have never reported the final result,
+   * e.g. when the run was interrupted between the retries
+   *
+   * @returns {TestResultType[]}
+   */
+  public flush(): TestResultType[] {
+    const results = this.getPending();
+
+    this.attempts.clear();
+
+    return results;
+  }
+
+  /**
+   * @param {TestResultType} result
+   * @param {TestResultType[]} attempts
+   * @returns {TestResultType}
+   * @private
+   */
+  private static attach(result: TestResultType, attempts: TestResultType[]): TestResultType {
+    if (attempts.length === 0) {
+      return result;
+    }
+
+    result.attempts = attempts.map(({ execution, message, attachments }): TestAttemptType => ({
+      execution,
+      message,
+      attachments,
+    }));
+    result.attachments = RetryCollector.uniqueAttachments([
+      ...attempts.flatMap(({ attachments }) => attachments),
+      ...result.attachments,
+    ]);
+
+    const summary = result.execution.status === TestStatusEnum.passed
+      ? `Passed on retry ${attempts.length}`
+      : `Final status ${result.execution.status} after ${attempts.length + 1} attempts`;
+
+    const details = attempts.map(({ execution, message }, index) => [
+      `Attempt ${index + 1}: ${execution.status}`,
+      message,
+      execution.stacktrace,
+    ].filter(Boolean).join('\n'));
+
+    result.message = [result.message, summary, ...details].filter(Boolean).join('\n\n');
+
+    return result;
+  }
+
+  /**
+   * Some frameworks report the same files for every attempt
+   *
+   * @param {Attachment[]} attachments
+   * @returns {Attachment[]}
+   * @private
+   */
+  private static uniqueAttachments(attachments: Attachment[]): Attachment[] {
+    const paths = new Set<string>();
+
+    return attachments.filter(({ file_path }) => {
+      if (file_path === null) {
+        return true;
+      }
+
+      if (paths.has(file_path)) {
+        return false;
+      }
+
+      paths.add(file_path);
+
+      return true;
+    });
+  }
+
+  /**
+   * @param {TestResultType} result
+   * @returns {string}
+   * @private
+   */
+  private static getKey(result: TestResultType): string {
+    if (result.signature) {
+      return result.signature;
+    }
+
+    const suites = result.relations?.suite?.data.map(({ title }) => title) ?? [];
+
+    return [...suites, result.title].join('::');
+  }
+}
@@ -0,0 +1,76 @@
+import { TestResultType, TestStatusEnum } from '../models';
+import { ShortResult } from '../models/short-result';
+import { Stats } from '../models/stats';
+
+export type ResultsSummaryType = {
+  stats: Stats;
+  results: ShortResult[];
+  threads: string[];
+  cumulativeDuration: number;
+};
+
+/**
+ * Collects the report counters from the test results
+ *
+ * @param {TestResultType[]} results
+ * @returns {ResultsSummaryType}
+ */
+export const summarizeResults = (results: TestResultType[]): ResultsSummaryType => {
+  const summary: ResultsSummaryType = {
+    stats: {
+      total: 0,
+      passed: 0,
+      failed: 0,
+      skipped: 0,
+      broken: 0,
+      muted: 0,
+    },
+    results: [],
+    threads: [],
+    cumulativeDuration: 0,
+  };
+
+  for (const result of results) {
+    summary.stats.total++;
+
+    if (result.muted) {
+      summary.stats.muted++;
+    } else {
+      switch (result.execution.status) {
+        case TestStatusEnum.passed:
+          summary.stats.passed++;
+          break;
+        case TestStatusEnum.failed:
+          summary.stats.failed++;
+          break;
+        case TestStatusEnum.skipped:
+          summary.stats.skipped++;
+          break;
+        case TestStatusEnum.invalid:
+          summary.stats.broken++;
+          break;
+        case TestStatusEnum.blocked:
+          summary.stats.muted++;
+          break;
+      }
+    }
+
+    summary.cumulativeDuration += result.execution.duration ?? 0;
+
+    const { thread } = result.execution;
+
+    if (thread !== null && !summary.threads.includes(thread)) {
+      summary.threads.push(thread);
+    }
+
+    summary.results.push({
+      duration: result.execution.duration ?? 0,
+      id: result.id,
+      status: result.execution.status,
+      thread,
+      title: result.title,
+    });
+  }
+
+  return summary;
+};
@@ -4,12 +4,20 @@ import * as path from 'path';
 import { WriterInterface } from './writer-interface';
 
 import { TestResultType, Attachment, Report } from '../models';
-import { FormatterInterface, JsonFormatter, JsonpFormatter } from '../formatter';
+import {
+  FormatterInterface,
+  HtmlFormatter,
+  JsonFormatter,
+  JsonpFormatter,
+  JunitFormatter,
+} from '../formatter';
 import { FormatEnum } from './driver-enum';
 
 export type FsWriterOptionsType = {
   path?: string | undefined;
   format?: `${FormatEnum}` | undefined;
+  junit?: boolean | undefined;
+  html?: boolean | undefined;
 };
 
 /**
@@ -20,6 +28,15 @@ export class FsWriter implements WriterInterface {
   private readonly path: string;
   private readonly format: string;
   private formatter: FormatterInterface;
+  private readonly junitFormatter: JunitFormatter | undefined;
+  private readonly htmlFormatter: HtmlFormatter | undefined;
+
+  /**
+   * Written results, kept for the reports which need all of them at once
+   * @type {TestResultType[]}
+   * @private
+   */
+  private results: TestResultType[] = [];
 
   /**
    * @param {FsWriterOptionsType | undefined} options
@@ -40,6 +57,14 @@ export class FsWriter implements WriterInterface {
     } else {
       this.formatter = new JsonpFormatter();
     }
+
+    if (options?.junit) {
+      this.junitFormatter = new JunitFormatter();
+    }
+
+    if (options?.html) {
+      this.htmlFormatter = new HtmlFormatter({ basePath: this.path });
+    }
   }
 
   /**
@@ -66,7 +91,11 @@ export class FsWriter implements WriterInterface {
         attachment.file_name = path.basename(attachment.file_path);
       }
 
-      const filePath = path.join(attachmentsPath, `${attachment.id}-${attachment.file_name}`);
+      // attachments copied from another report are already prefixed with their ID
+      const fileName = attachment.file_name.startsWith(`${attachment.id}-`)
+        ? attachment.file_name
+        : `${attachment.id}-${attachment.file_name}`;
+      const filePath = path.join(attachmentsPath, fileName);
 
       if (attachment.file_path) {
         copyFileSync(attachment.file_path, filePath);
@@ -96,6 +125,20 @@ export class FsWriter implements WriterInterface {
 
     writeFileSync(filePath, await this.formatter.format(results));
 
+    if (this.junitFormatter) {
+      writeFileSync(
+        path.join(this.path, 'junit.xml'),
+        await this.junitFormatter.format(this.results),
+      );
+    }
+
+    if (this.htmlFormatter) {
+      writeFileSync(
+        path.join(this.path, 'index.html'),
+        await this.htmlFormatter.format({ report: results, results: this.results }),
+      );
+    }
+
     return filePath;
   }
 
@@ -115,6 +158,10 @@ export class FsWriter implements WriterInterface {
 
     writeFileSync(filePath, await this.formatter.format(result));
 
+    if (this.junitFormatter || this.htmlFormatter) {
+      this.results = this.results.filter(({ id }) => id !== result.id);
+      this.results.push(result);
+    }
   }
 
   private deleteFolderRecursive(directoryPath: string) {
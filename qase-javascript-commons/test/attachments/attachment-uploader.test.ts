@@ -0,0 +1,134 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { QaseApiInterface } from 'qaseio';
+
+import { AttachmentUploader } from '../../src/attachments';
+import { Attachment } from '../../src/models';
+import { axiosError, createLogger, response } from '../mocks';
+
+/**
+ * @param {string} name
+ * @param {string} content
+ * @returns {Attachment}
+ */
+const createAttachment = (name: string, content: string): Attachment => ({
+  file_name: name,
+  file_path: null,
+  mime_type: 'text/plain',
+  content,
+  size: content.length,
+  id: name,
+});
+
+describe('AttachmentUploader', () => {
+  const uploadAttachment = jest.fn((_code: string, files: { name: string }[]) => response({
+    // the response lists the files in another order
+    result: files.map(({ name }, index) => ({ filename: name, hash: `${name}-${index}` })).reverse(),
+  }));
+  const api = { attachments: { uploadAttachment } } as unknown as QaseApiInterface;
+  let dir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = mkdtempSync(join(tmpdir(), 'qase-attachments-'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    rmdirSync(dir, { recursive: true });
+  });
+
+  it('matches the hashes to the files by name', async () => {
+    const uploader = new AttachmentUploader(createLogger(), api, 'DEMO');
+
+    const { hashes, failed } = await uploader.upload([
+      createAttachment('first.txt', 'first'),
+      createAttachment('second.txt', 'second'),
+    ]);
+
+    expect(hashes).toEqual(['first.txt-0', 'second.txt-1']);
+    expect(failed).toEqual([]);
+  });
+
+  it('uploads the same content once', async () => {
+    const uploader = new AttachmentUploader(createLogger(), api, 'DEMO');
+
+    const { hashes } = await uploader.upload([
+      createAttachment('first.txt', 'content'),
+      createAttachment('second.txt', 'content'),
+    ]);
+
+    expect(hashes).toEqual(['first.txt-0', 'first.txt-0']);
+    expect(uploadAttachment.mock.calls).toHaveLength(1);
+  });
+
+  it('skips the files over the size limit', async () => {
+    const path = join(dir, 'large.log');
+
+    writeFileSync(path, Buffer.alloc(2 * 1024 * 1024));
+
+    const uploader = new AttachmentUploader(createLogger(), api, 'DEMO', { maxFileSize: 1 });
+
+    const { hashes, failed } = await uploader.upload([{ ...createAttachment('large.log', ''), file_path: path }]);
+
+    expect(hashes).toEqual([]);
+    expect(failed).toEqual([]);
+    expect(uploadAttachment.mock.calls).toHaveLength(0);
+  });
+
+  it('retries the network errors and the server errors with a growing delay', async () => {
+    jest.useFakeTimers();
+    uploadAttachment
+      .mockRejectedValueOnce(axiosError(undefined, 'Network Error'))
+      .mockRejectedValueOnce(axiosError(502));
+
+    const uploader = new AttachmentUploader(createLogger(), api, 'DEMO');
+    const upload = uploader.upload([createAttachment('first.txt', 'first')]);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(uploadAttachment.mock.calls).toHaveLength(2);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    const { hashes } = await upload;
+
+    expect(hashes).toEqual(['first.txt-0']);
+    expect(uploadAttachment.mock.calls).toHaveLength(3);
+  });
+
+  it('gives up after the retries', async () => {
+    jest.useFakeTimers();
+    uploadAttachment
+      .mockRejectedValueOnce(axiosError(500))
+      .mockRejectedValueOnce(axiosError(500));
+
+    const uploader = new AttachmentUploader(createLogger(), api, 'DEMO', { retries: 1 });
+    const upload = uploader.upload([createAttachment('first.txt', 'first')]);
+
+    await jest.advanceTimersByTimeAsync(500);
+    const { failed } = await upload;
+
+    expect(failed).toHaveLength(1);
+    expect(uploadAttachment.mock.calls).toHaveLength(2);
+  });
+
+  it('does not retry the client errors', async () => {
+    uploadAttachment.mockRejectedValueOnce(axiosError(400));
+
+    const uploader = new AttachmentUploader(createLogger(), api, 'DEMO');
+
+    const { failed } = await uploader.upload([createAttachment('first.txt', 'first')]);
+
+    expect(failed).toHaveLength(1);
+    expect(uploadAttachment.mock.calls).toHaveLength(1);
+  });
+
+  it('keeps the name of a compressed file', async () => {
+    const uploader = new AttachmentUploader(createLogger(), api, 'DEMO', { compress: true });
+
+    await uploader.upload([createAttachment('run.log', 'line\n'.repeat(20_000))]);
+
+    expect(uploadAttachment.mock.calls[0]?.[1]).toEqual([expect.objectContaining({ name: 'run.log' })]);
+  });
+});
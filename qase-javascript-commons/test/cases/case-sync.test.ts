@@ -0,0 +1,128 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmdirSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { QaseApiInterface, SuiteListResponse } from 'qaseio';
+
+import { CaseSync } from '../../src/cases';
+import { TestResultType } from '../../src/models';
+import { createLogger, response } from '../mocks';
+
+/**
+ * @param {string} title
+ * @param {string} signature
+ * @param {string[]} suites
+ * @returns {TestResultType}
+ */
+const createResult = (title: string, signature: string, suites: string[] = ['Login']): TestResultType => {
+  const result = new TestResultType(title);
+
+  result.signature = signature;
+  result.relations = { suite: { data: suites.map((suite) => ({ title: suite, public_id: null })) } };
+
+  return result;
+};
+
+describe('CaseSync', () => {
+  let cacheDir: string;
+  let cachePath: string;
+
+  const getSuites = jest.fn((): Promise<{ data: SuiteListResponse }> => response({
+    result: { entities: [{ id: 10, title: 'Login', parent_id: null }] },
+  }));
+  const createSuite = jest.fn(() => response({ result: { id: 20 } }));
+  const getCases = jest.fn(() => response({
+    result: { entities: [{ id: 1, title: 'logs in', suite_id: 10 }, { id: 2, title: 'logs out', suite_id: 11 }] },
+  }));
+  const bulk = jest.fn(() => response({ result: { ids: [3] } }));
+
+  const api = {
+    suites: { getSuites, createSuite },
+    cases: { getCases, bulk },
+  } as unknown as QaseApiInterface;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cacheDir = mkdtempSync(path.join(tmpdir(), 'qase-cases-'));
+    cachePath = path.join(cacheDir, 'cases.json');
+  });
+
+  afterEach(() => {
+    rmdirSync(cacheDir, { recursive: true });
+  });
+
+  it('links the results to the cases of their suite, fetched once', async () => {
+    const results = [
+      createResult('logs in', 'login::logs in::{"user":"admin"}'),
+      createResult('logs in', 'login::logs in::{"user":"guest"}'),
+      createResult('logs out', 'login::logs out'),
+    ];
+
+    await new CaseSync(createLogger(), api, 'DEMO', { cachePath }).sync(results);
+
+    expect(getCases.mock.calls).toHaveLength(1);
+    expect(results.map(({ testops_id }) => testops_id)).toEqual([1, 1, 3]);
+    expect(JSON.parse(readFileSync(cachePath, 'utf8'))).toEqual({
+      'login::logs in::{"user":"admin"}': 1,
+      'login::logs in::{"user":"guest"}': 1,
+      'login::logs out': 3,
+    });
+  });
+
+  it('creates one case for the results with the same suite and title', async () => {
+    const results = [
+      createResult('signs up', 'signup::{"plan":"free"}'),
+      createResult('signs up', 'signup::{"plan":"pro"}'),
+    ];
+
+    await new CaseSync(createLogger(), api, 'DEMO', { cachePath }).sync(results);
+
+    expect(bulk.mock.calls[0]).toEqual(['DEMO', { cases: [{ title: 'signs up', automation: 2, suite_id: 10 }] }]);
+    expect(results.map(({ testops_id }) => testops_id)).toEqual([3, 3]);
+  });
+
+  it('creates the missing suites without looking up their cases', async () => {
+    const results = [createResult('resets the password', 'reset', ['Login', 'Password'])];
+
+    await new CaseSync(createLogger(), api, 'DEMO', { cachePath }).sync(results);
+
+    expect(createSuite.mock.calls[0]).toEqual(['DEMO', { title: 'Password', parent_id: 10 }]);
+    expect(getCases.mock.calls).toHaveLength(0);
+    expect(bulk.mock.calls[0]).toEqual(['DEMO', { cases: [{ title: 'resets the password', automation: 2, suite_id: 20 }] }]);
+  });
+
+  it('pages through the suites', async () => {
+    const page = Array.from({ length: 100 }, (_, index) => ({ id: index + 100, title: 'Login', parent_id: 5 }));
+
+    getSuites.mockImplementationOnce(() => response({ result: { entities: page } }));
+
+    await new CaseSync(createLogger(), api, 'DEMO', { cachePath }).sync([createResult('logs in', 'login')]);
+
+    expect(getSuites.mock.calls).toEqual([['DEMO', 'Login', 100, 0], ['DEMO', 'Login', 100, 100]]);
+  });
+
+  it('uses the cached case IDs', async () => {
+    const sync = new CaseSync(createLogger(), api, 'DEMO', { cachePath });
+
+    await sync.sync([createResult('logs in', 'login')]);
+    jest.clearAllMocks();
+
+    const result = createResult('logs in', 'login');
+
+    await new CaseSync(createLogger(), api, 'DEMO', { cachePath }).sync([result]);
+
+    expect(result.testops_id).toBe(1);
+    expect(getSuites.mock.calls).toHaveLength(0);
+    expect(sync.getSignatures([1])).toEqual(['login']);
+  });
+
+  it('keeps the cases cached by the other workers', async () => {
+    const first = new CaseSync(createLogger(), api, 'DEMO', { cachePath });
+    const second = new CaseSync(createLogger(), api, 'DEMO', { cachePath });
+
+    await first.sync([createResult('logs in', 'login')]);
+    await second.sync([createResult('logs out', 'logout', ['Logout'])]);
+
+    expect(Object.keys(JSON.parse(readFileSync(cachePath, 'utf8')) as object)).toHaveLength(2);
+  });
+});
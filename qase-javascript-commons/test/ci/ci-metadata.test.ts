@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { CiProviderEnum, detectCi, formatCiMetadata } from '../../src/ci';
+
+describe('detectCi', () => {
+  it('reads the build of a GitHub Actions pull request', () => {
+    expect(detectCi({
+      GITHUB_ACTIONS: 'true',
+      GITHUB_SERVER_URL: 'https://github.com',
+      GITHUB_REPOSITORY: 'acme/shop',
+      GITHUB_RUN_ID: '42',
+      GITHUB_WORKFLOW: 'CI',
+      GITHUB_JOB: 'e2e',
+      GITHUB_HEAD_REF: 'feature',
+      GITHUB_REF_NAME: '7/merge',
+      GITHUB_REF: 'refs/pull/7/merge',
+      GITHUB_SHA: 'abc',
+      GITHUB_ACTOR: 'octocat',
+    })).toEqual({
+      provider: CiProviderEnum.github,
+      name: 'GitHub Actions',
+      buildUrl: 'https://github.com/acme/shop/actions/runs/42',
+      jobName: 'CI / e2e',
+      branch: 'feature',
+      commit: 'abc',
+      pullRequest: '7',
+      author: 'octocat',
+    });
+  });
+
+  it('leaves out the empty variables', () => {
+    expect(detectCi({ GITLAB_CI: 'true', CI_COMMIT_REF_NAME: 'main', CI_MERGE_REQUEST_IID: '' })).toEqual({
+      provider: CiProviderEnum.gitlab,
+      name: 'GitLab CI',
+      branch: 'main',
+    });
+  });
+
+  it('strips the refs of the Azure Pipelines branches', () => {
+    expect(detectCi({ TF_BUILD: 'True', BUILD_SOURCEBRANCH: 'refs/heads/release' })?.branch).toBe('release');
+  });
+
+  it('does not take the Buildkite branch builds for pull requests', () => {
+    expect(detectCi({ BUILDKITE: 'true', BUILDKITE_PULL_REQUEST: 'false' })?.pullRequest).toBeUndefined();
+  });
+
+  it('returns undefined outside of the known CI systems', () => {
+    expect(detectCi({ CI: 'true' })).toBeUndefined();
+  });
+});
+
+describe('formatCiMetadata', () => {
+  it('formats the metadata as lines of text', () => {
+    expect(formatCiMetadata({
+      provider: CiProviderEnum.jenkins,
+      name: 'Jenkins',
+      buildUrl: 'https://ci.example.com/job/shop/5/',
+      branch: 'main',
+      commit: 'abc',
+      pullRequest: '7',
+    })).toBe([
+      'Jenkins build: https://ci.example.com/job/shop/5/',
+      'Branch: main, commit abc',
+      'Pull request: #7',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,152 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { createHash } from 'crypto';
+import { Defect, DefectCreate, DefectUpdate, QaseApiInterface } from 'qaseio';
+
+import { DefectTracker } from '../../src/defects';
+import { TestResultType, TestStatusEnum } from '../../src/models';
+import { createLogger, response } from '../mocks';
+
+/**
+ * @param {string} signature
+ * @param {string} message
+ * @param {string | null} stacktrace
+ * @returns {TestResultType}
+ */
+const createFailure = (signature: string, message: string, stacktrace: string | null = null): TestResultType => ({
+  title: signature,
+  signature,
+  message,
+  muted: false,
+  execution: { status: TestStatusEnum.failed, stacktrace },
+}) as TestResultType;
+
+/**
+ * @param {string} signature
+ * @returns {TestResultType}
+ */
+const createPass = (signature: string): TestResultType => ({
+  ...createFailure(signature, ''),
+  execution: { status: TestStatusEnum.passed, stacktrace: null },
+}) as TestResultType;
+
+/**
+ * @param {string} signature
+ * @returns {string} the key of the test in the defect tags
+ */
+const getTestKey = (signature: string): string => createHash('sha1').update(signature).digest('hex').slice(0, 12);
+
+describe('DefectTracker', () => {
+  describe('getFingerprint', () => {
+    it('leaves out the line numbers and directories of the stack frames', () => {
+      const first = createFailure('a', 'Error', 'Error: timeout\n    at login (/home/ci/1/tests/login.spec.ts:10:5)');
+      const second = createFailure('b', 'Error', 'Error: timeout\n    at login (/builds/2/tests/login.spec.ts:12:7)');
+
+      expect(DefectTracker.getFingerprint(first)).toBe(DefectTracker.getFingerprint(second));
+    });
+
+    it('leaves out the IDs and the directories of the message', () => {
+      const first = createFailure('a', 'Order 6f1c0a52-6a7e-4a8b-9b3e-0d2f1e5c7a90 not found in /tmp/run-1/orders.json');
+      const second = createFailure('b', 'Order 0b8e4d1a-2c3f-4e5d-8a7b-1c2d3e4f5a6b not found in /tmp/run-2/orders.json');
+
+      expect(DefectTracker.getFingerprint(first)).toBe(DefectTracker.getFingerprint(second));
+    });
+
+    it('tells apart the different messages', () => {
+      const first = createFailure('a', 'Order not found');
+      const second = createFailure('a', 'Order is cancelled');
+
+      expect(DefectTracker.getFingerprint(first)).not.toBe(DefectTracker.getFingerprint(second));
+    });
+  });
+
+  describe('track', () => {
+    const defects: Defect[] = [];
+    const createDefect = jest.fn<(code: string, defect: DefectCreate) => Promise<unknown>>(
+      () => response({ result: { id: 1 } }),
+    );
+    const updateDefect = jest.fn<(code: string, id: number, update: DefectUpdate) => Promise<unknown>>(
+      () => response({}),
+    );
+    const resolveDefect = jest.fn(() => response({}));
+    const api = {
+      defects: {
+        getDefects: jest.fn(() => response({ result: { entities: defects } })),
+        createDefect,
+        updateDefect,
+        resolveDefect,
+      },
+    } as unknown as QaseApiInterface;
+    const getLink = (): string => 'https://app.qase.io';
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      defects.length = 0;
+    });
+
+    it('adds the new tests to the tags of the defect without changing its description', async () => {
+      const failure = createFailure('a', 'Error: timeout');
+      const fingerprint = DefectTracker.getFingerprint(failure);
+
+      defects.push({ id: 7, actual_result: 'description', tags: [{ title: `qase-fp-${fingerprint}` }] });
+
+      const tracker = new DefectTracker(createLogger(), api, 'DEMO');
+
+      await tracker.track([failure, createFailure('b', 'Error: timeout')], getLink);
+
+      expect(createDefect.mock.calls).toHaveLength(0);
+      expect(updateDefect.mock.calls).toHaveLength(1);
+
+      const update = updateDefect.mock.calls[0]?.[2];
+
+      expect(update?.actual_result).toBeUndefined();
+      expect(update?.tags?.filter((tag) => tag.startsWith('qase-test-'))).toHaveLength(2);
+    });
+
+    it('does not update the defect when its tests are already tagged', async () => {
+      const tracker = new DefectTracker(createLogger(), api, 'DEMO');
+
+      await tracker.track([createFailure('a', 'Error: timeout')], getLink);
+      await tracker.track([createFailure('a', 'Error: timeout')], getLink);
+
+      expect(createDefect.mock.calls).toHaveLength(1);
+      expect(updateDefect.mock.calls).toHaveLength(0);
+    });
+
+    it('caps the test tags of a defect', async () => {
+      const failures = Array.from({ length: 30 }, (_, index) => createFailure(`test ${index}`, 'Error: timeout'));
+      const tracker = new DefectTracker(createLogger(), api, 'DEMO');
+
+      await tracker.track(failures, getLink);
+
+      const tags = createDefect.mock.calls[0]?.[1].tags;
+
+      expect(tags?.filter((tag) => tag.startsWith('qase-test-'))).toHaveLength(20);
+    });
+
+    it('resolves the defects whose tests have passed', async () => {
+      defects.push({ id: 7, tags: [{ title: 'qase-fp-1' }, { title: `qase-test-${getTestKey('a')}` }] });
+
+      const tracker = new DefectTracker(createLogger(), api, 'DEMO', { resolve: true });
+
+      await tracker.track([createPass('a')], getLink);
+
+      expect(await tracker.resolvePassed()).toEqual([7]);
+    });
+
+    it('leaves open the defects with the capped test tags', async () => {
+      const tests = Array.from({ length: 20 }, (_, index) => `test ${index}`);
+
+      defects.push({
+        id: 7,
+        tags: [{ title: 'qase-fp-1' }, ...tests.map((test) => ({ title: `qase-test-${getTestKey(test)}` }))],
+      });
+
+      const tracker = new DefectTracker(createLogger(), api, 'DEMO', { resolve: true });
+
+      await tracker.track(tests.map((test) => createPass(test)), getLink);
+
+      expect(await tracker.resolvePassed()).toEqual([]);
+      expect(resolveDefect.mock.calls).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { QaseApiInterface, Result } from 'qaseio';
+
+import { FlakyDetector } from '../../src/flaky';
+import { createLogger, response } from '../mocks';
+
+/**
+ * @param {number} caseId
+ * @param {string[]} statuses the statuses from the oldest result
+ * @returns {Result[]}
+ */
+const createHistory = (caseId: number, statuses: string[]): Result[] => statuses.map((status, index) => ({
+  case_id: caseId,
+  run_id: index + 1,
+  status,
+  end_time: `2024-01-${String(index + 1).padStart(2, '0')} 00:00:00`,
+}));
+
+describe('FlakyDetector', () => {
+  const histories = new Map<number, Result[]>();
+  const getResults = jest.fn((_code: string, _status?: string, _run?: string, caseId?: string, ...rest: unknown[]) => {
+    const [limit = 100, offset = 0] = rest.slice(-2) as number[];
+    const entities = histories.get(Number(caseId))?.slice(offset, offset + limit) ?? [];
+
+    return response({ result: { entities } });
+  });
+  const api = { results: { getResults } } as unknown as QaseApiInterface;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    histories.clear();
+  });
+
+  it('scores the share of the status changes', async () => {
+    histories.set(1, createHistory(1, ['passed', 'failed', 'passed', 'failed', 'passed']));
+    histories.set(2, createHistory(2, ['failed', 'failed', 'failed', 'passed', 'skipped']));
+
+    const detector = new FlakyDetector(createLogger(), api, 'DEMO', { threshold: 0.5 });
+
+    await detector.analyze([1, 2]);
+
+    expect(detector.getFlakyScore(1)).toEqual({ caseId: 1, score: 1, results: 5, failures: 2 });
+    // one change in three consecutive pairs, the skipped result is ignored
+    expect(detector.getFlakyScore(2)).toBeUndefined();
+  });
+
+  it('excludes the results of the current run', async () => {
+    histories.set(1, createHistory(1, ['passed', 'passed', 'failed']));
+
+    const detector = new FlakyDetector(createLogger(), api, 'DEMO');
+
+    await detector.analyze([1], 3);
+
+    expect(detector.getFlakyScore(1)).toBeUndefined();
+  });
+
+  it('queries each case once, with a limit per case', async () => {
+    histories.set(1, createHistory(1, Array.from({ length: 500 }, (_, index) => (index % 2 ? 'passed' : 'failed'))));
+    histories.set(2, createHistory(2, ['passed', 'failed']));
+
+    const detector = new FlakyDetector(createLogger(), api, 'DEMO');
+
+    await detector.analyze([1, 2, 1]);
+    await detector.analyze([2]);
+
+    expect(getResults.mock.calls.map((call) => [call[3], call[9]])).toEqual([
+      ['1', 0],
+      ['1', 100],
+      ['2', 0],
+    ]);
+    expect(detector.getFlakyScore(1)?.results).toBe(200);
+    expect(detector.getFlakyScore(2)?.score).toBe(1);
+  });
+});
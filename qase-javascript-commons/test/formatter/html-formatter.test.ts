@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+import { HtmlFormatter } from '../../src/formatter';
+import { Report, TestResultType, TestStatusEnum } from '../../src/models';
+
+const report = {
+  title: 'Nightly <report>',
+  environment: 'staging',
+  execution: { start_time: 0, end_time: 2, duration: 2500, cumulative_duration: 2500 },
+  stats: { total: 2, passed: 1, failed: 1, skipped: 0, broken: 0, muted: 0 },
+} as Report;
+
+/**
+ * @param {string} title
+ * @param {string[]} suites
+ * @returns {TestResultType}
+ */
+const createResult = (title: string, suites: string[] = []): TestResultType => {
+  const result = new TestResultType(title);
+
+  result.execution.duration = 250;
+  result.relations = { suite: { data: suites.map((suite) => ({ title: suite, public_id: null })) } };
+
+  return result;
+};
+
+describe('HtmlFormatter', () => {
+  let basePath: string;
+
+  beforeEach(() => {
+    basePath = mkdtempSync(path.join(tmpdir(), 'qase-html-'));
+  });
+
+  afterEach(() => {
+    rmdirSync(basePath, { recursive: true });
+  });
+
+  it('shows the stats and escapes the title', async () => {
+    const html = await new HtmlFormatter().format({ report, results: [] });
+
+    expect(html).toContain('<title>Nightly &lt;report&gt;</title>');
+    expect(html).toContain('<div class="stat">Failed<b>1</b></div>');
+    expect(html).toContain('<div class="stat">Duration<b>2.50s</b></div>');
+    expect(html).toContain('<div class="stat">Environment<b>staging</b></div>');
+  });
+
+  it('nests the results in their suites', async () => {
+    const failed = createResult('logout', ['Auth', 'Session']);
+
+    failed.execution.status = TestStatusEnum.failed;
+    failed.message = 'Expected <true>';
+
+    const html = await new HtmlFormatter().format({
+      report,
+      results: [createResult('login', ['Auth']), failed],
+    });
+
+    const auth = html.indexOf('<summary>Auth</summary>');
+    const session = html.indexOf('<summary>Session</summary>');
+    const logout = html.indexOf('<span class="status status-failed">failed</span> logout');
+
+    expect(auth).toBeGreaterThan(-1);
+    expect(session).toBeGreaterThan(auth);
+    expect(logout).toBeGreaterThan(session);
+    expect(html).toContain('<pre>Expected &lt;true&gt;</pre>');
+  });
+
+  it('links the images and inlines the text attachments relative to the report', async () => {
+    const missingPath = path.join(basePath, 'attachments', 'log.txt');
+    const result = createResult('login');
+
+    writeFileSync(path.join(basePath, 'log.txt'), 'started');
+    result.attachments = [
+      {
+        file_name: 'screenshot.png',
+        mime_type: 'image/png',
+        file_path: path.join(basePath, 'attachments', 'screenshot.png'),
+        content: '',
+        size: 0,
+        id: '1',
+      },
+      {
+        file_name: 'log.txt',
+        mime_type: 'text/plain',
+        file_path: path.join(basePath, 'log.txt'),
+        content: '',
+        size: 0,
+        id: '2',
+      },
+      {
+        file_name: 'missing.txt',
+        mime_type: 'text/plain',
+        file_path: missingPath,
+        content: '',
+        size: 0,
+        id: '3',
+      },
+    ];
+
+    const html = await new HtmlFormatter({ basePath }).format({ report, results: [result] });
+
+    expect(html).toContain('<img src="attachments/screenshot.png" alt="screenshot.png">');
+    expect(html).toContain('<details><summary>log.txt</summary><pre>started</pre></details>');
+    expect(html).toContain('<div><a href="attachments/log.txt">missing.txt</a></div>');
+  });
+});
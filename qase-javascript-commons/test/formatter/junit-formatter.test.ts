@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { JunitFormatter } from '../../src/formatter';
+import { TestExecution, TestResultType, TestStatusEnum } from '../../src/models';
+
+/**
+ * @param {string} title
+ * @param {TestStatusEnum} status
+ * @param {string[]} suites
+ * @returns {TestResultType}
+ */
+const createResult = (title: string, status: TestStatusEnum, suites: string[] = []): TestResultType => {
+  const result = new TestResultType(title);
+
+  result.execution.status = status;
+  result.execution.duration = 1500;
+
+  if (suites.length > 0) {
+    result.relations = { suite: { data: suites.map((suite) => ({ title: suite, public_id: null })) } };
+  }
+
+  return result;
+};
+
+describe('JunitFormatter', () => {
+  const formatter = new JunitFormatter({ name: 'Nightly' });
+
+  it('groups the results by the suites and counts the statuses', async () => {
+    const xml = await formatter.format([
+      createResult('login', TestStatusEnum.passed, ['Auth', 'Login']),
+      createResult('logout', TestStatusEnum.failed, ['Auth', 'Login']),
+      createResult('search', TestStatusEnum.skipped),
+    ]);
+
+    expect(xml).toContain('<testsuites name="Nightly" tests="3" failures="1" errors="0" skipped="1" time="4.500">');
+    expect(xml).toContain('<testsuite name="Auth &gt; Login" tests="2" failures="1" errors="0" skipped="0" time="3.000">');
+    expect(xml).toContain('<testsuite name="Default suite" tests="1" failures="0" errors="0" skipped="1" time="1.500">');
+    expect(xml).toContain('<testcase name="search" classname="Default suite" time="1.500">');
+  });
+
+  it('escapes the failure message and the stack trace', async () => {
+    const result = createResult('login', TestStatusEnum.failed);
+
+    result.message = 'Expected "<b>" & got \u001b[31mnull\u001b[39m';
+    result.execution.stacktrace = 'at <anonymous>\u0007';
+
+    const xml = await formatter.format([result]);
+
+    expect(xml).toContain(
+      '<failure message="Expected &quot;&lt;b&gt;&quot; &amp; got null" type="failure">at &lt;anonymous&gt;</failure>',
+    );
+  });
+
+  it('reports the muted failures as skipped', async () => {
+    const result = createResult('login', TestStatusEnum.failed);
+
+    result.muted = true;
+
+    const xml = await formatter.format([result]);
+
+    expect(xml).toContain('tests="1" failures="0" errors="0" skipped="1"');
+    expect(xml).toContain('<property name="qase.muted" value="true"/>');
+    expect(xml).not.toContain('<failure');
+  });
+
+  it('adds the Qase IDs, the fields and the params as properties', async () => {
+    const result = createResult('login', TestStatusEnum.passed);
+
+    result.testops_id = [1, 2];
+    result.fields = { severity: 'critical' };
+    result.params = { browser: 'chromium' };
+
+    const xml = await formatter.format([result]);
+
+    expect(xml).toContain([
+      '      <properties>',
+      '        <property name="qase.id" value="1"/>',
+      '        <property name="qase.id" value="2"/>',
+      '        <property name="qase.field.severity" value="critical"/>',
+      '        <property name="qase.param.browser" value="chromium"/>',
+      '      </properties>',
+    ].join('\n'));
+  });
+
+  it('adds the failed attempts of a retried test', async () => {
+    const result = createResult('login', TestStatusEnum.passed);
+    const execution = new TestExecution();
+
+    execution.status = TestStatusEnum.failed;
+    execution.stacktrace = 'timeout';
+    result.attempts = [{ execution, message: 'Timed out', attachments: [] }];
+
+    const xml = await formatter.format([result]);
+
+    expect(xml).toContain('<flakyFailure message="Timed out" type="failed">timeout</flakyFailure>');
+  });
+});
@@ -0,0 +1,87 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+import { ReportImporter } from '../../src/importer';
+import { TestResultType } from '../../src/models';
+import { InternalReporterInterface } from '../../src/reporters/abstract-reporter';
+import { QaseError } from '../../src/utils/qase-error';
+import { createLogger } from '../mocks';
+
+const createReporter = (): jest.Mocked<InternalReporterInterface> => ({
+  startTestRun: jest.fn(() => Promise.resolve()),
+  addTestResult: jest.fn(() => Promise.resolve()),
+  getTestResults: jest.fn(() => []),
+  setTestResults: jest.fn(),
+  sendResults: jest.fn(() => Promise.resolve()),
+  complete: jest.fn(() => Promise.resolve()),
+  publish: jest.fn(() => Promise.resolve()),
+});
+
+/**
+ * @param {string} title
+ * @param {string | null} filePath
+ * @returns {TestResultType}
+ */
+const createResult = (title: string, filePath: string | null = null): TestResultType => {
+  const result = new TestResultType(title);
+
+  if (filePath !== null) {
+    result.attachments = [{ file_name: 'log.txt', mime_type: 'text/plain', file_path: filePath, content: '', size: 0, id: '1' }];
+  }
+
+  return result;
+};
+
+describe('ReportImporter', () => {
+  let reportPath: string;
+  let reporter: jest.Mocked<InternalReporterInterface>;
+
+  beforeEach(() => {
+    reportPath = mkdtempSync(path.join(tmpdir(), 'qase-report-'));
+    mkdirSync(path.join(reportPath, 'results'));
+    reporter = createReporter();
+  });
+
+  afterEach(() => {
+    rmdirSync(reportPath, { recursive: true });
+  });
+
+  it('publishes the JSON and the JSONP results through the reporter', async () => {
+    writeFileSync(path.join(reportPath, 'results', 'a.json'), JSON.stringify(createResult('first')));
+    writeFileSync(path.join(reportPath, 'results', 'b.jsonp'), `qaseJsonp(${JSON.stringify(createResult('second'))});`);
+
+    await expect(new ReportImporter(createLogger(), reporter).import(reportPath)).resolves.toBe(2);
+
+    expect(reporter.startTestRun.mock.calls).toHaveLength(1);
+    expect(reporter.addTestResult.mock.calls.map(([result]) => result.title)).toEqual(['first', 'second']);
+    expect(reporter.publish.mock.calls).toHaveLength(1);
+  });
+
+  it('finds the attachments of a moved report in the report directory', async () => {
+    mkdirSync(path.join(reportPath, 'attachments'));
+    writeFileSync(path.join(reportPath, 'attachments', 'log.txt'), 'log');
+    writeFileSync(
+      path.join(reportPath, 'results', 'a.json'),
+      JSON.stringify(createResult('first', path.join('build', 'qase-report', 'attachments', 'log.txt'))),
+    );
+
+    await new ReportImporter(createLogger(), reporter).import(reportPath);
+
+    expect(reporter.addTestResult.mock.calls[0]?.[0].attachments[0]?.file_path)
+      .toBe(path.join(reportPath, 'attachments', 'log.txt'));
+  });
+
+  it('does not start a run without the results', async () => {
+    await expect(new ReportImporter(createLogger(), reporter).import(reportPath)).resolves.toBe(0);
+
+    expect(reporter.startTestRun.mock.calls).toHaveLength(0);
+  });
+
+  it('throws on a directory without the results', async () => {
+    rmdirSync(path.join(reportPath, 'results'));
+
+    await expect(new ReportImporter(createLogger(), reporter).import(reportPath)).rejects.toThrow(QaseError);
+  });
+});
@@ -0,0 +1,72 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { QaseApiInterface, TestCaseexternalIssues, TestCaseexternalIssuesTypeEnum } from 'qaseio';
+
+import { IssueSync } from '../../src/issues';
+import { TestResultType } from '../../src/models';
+import { createLogger, response } from '../mocks';
+
+/**
+ * @param {number | number[] | null} testopsId
+ * @param {string[]} issues
+ * @returns {TestResultType}
+ */
+const createResult = (testopsId: number | number[] | null, issues: string[]): TestResultType =>
+  Object.assign(new TestResultType('test'), { testops_id: testopsId, issues });
+
+describe('IssueSync', () => {
+  const getCase = jest.fn<(code: string, id: number) => Promise<unknown>>(
+    (_code, id) => response({
+      result: {
+        id,
+        external_issues: [
+          { type: TestCaseexternalIssuesTypeEnum.CLOUD, issues: [{ id: 'PROJ-1' }, { id: 'PROJ-9' }] },
+          { type: TestCaseexternalIssuesTypeEnum.SERVER, issues: [{ id: 'PROJ-2' }] },
+        ],
+      },
+    }),
+  );
+  const caseAttachExternalIssue = jest.fn<(code: string, issues: TestCaseexternalIssues) => Promise<unknown>>(
+    () => response({ status: true }),
+  );
+  const api = { cases: { getCase, caseAttachExternalIssue } } as unknown as QaseApiInterface;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('attaches only the issues which the cases are not linked to', async () => {
+    const sync = new IssueSync(createLogger(), api, 'DEMO');
+
+    sync.collect([
+      createResult([1, 2], ['PROJ-1', ' PROJ-2 ']),
+      createResult(1, ['PROJ-3']),
+      createResult(null, ['PROJ-4']),
+    ]);
+    await sync.sync();
+
+    expect(caseAttachExternalIssue.mock.calls).toEqual([['DEMO', {
+      type: TestCaseexternalIssuesTypeEnum.CLOUD,
+      links: [
+        { case_id: 1, external_issues: ['PROJ-2', 'PROJ-3'] },
+        { case_id: 2, external_issues: ['PROJ-2'] },
+      ],
+    }]]);
+  });
+
+  it('compares the issues of the configured tracker', async () => {
+    const sync = new IssueSync(createLogger(), api, 'DEMO', { type: 'jira-server' });
+
+    sync.collect([createResult(1, ['PROJ-2'])]);
+
+    await expect(sync.sync()).resolves.toEqual([]);
+    expect(caseAttachExternalIssue.mock.calls).toHaveLength(0);
+  });
+
+  it('returns the linked issues which are no longer declared', async () => {
+    const sync = new IssueSync(createLogger(), api, 'DEMO');
+
+    sync.collect([createResult(1, ['PROJ-1'])]);
+
+    await expect(sync.sync()).resolves.toEqual([{ caseId: 1, issues: ['PROJ-9'] }]);
+  });
+});
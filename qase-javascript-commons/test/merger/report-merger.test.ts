@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { existsSync, mkdtempSync, rmdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+import { ReportMerger } from '../../src/merger';
+import { Report, TestResultType, TestStatusEnum } from '../../src/models';
+import { FsReader } from '../../src/reader';
+import { FsWriter } from '../../src/writer';
+import { QaseError } from '../../src/utils/qase-error';
+import { createLogger } from '../mocks';
+
+/**
+ * @param {string} id
+ * @param {string} signature
+ * @param {TestStatusEnum} status
+ * @param {number} endTime
+ * @returns {TestResultType}
+ */
+const createResult = (id: string, signature: string, status: TestStatusEnum, endTime: number): TestResultType => {
+  const result = new TestResultType(signature);
+
+  result.id = id;
+  result.signature = signature;
+  result.execution.status = status;
+  result.execution.end_time = endTime;
+  result.execution.duration = 1000;
+
+  return result;
+};
+
+describe('ReportMerger', () => {
+  let rootPath: string;
+  let outputPath: string;
+
+  /**
+   * @param {string} name
+   * @param {Partial<Report>} report
+   * @param {TestResultType[]} results
+   * @returns {Promise<string>}
+   */
+  const writeShard = async (name: string, report: Partial<Report>, results: TestResultType[]): Promise<string> => {
+    const shardPath = path.join(rootPath, name);
+    const writer = new FsWriter({ path: shardPath });
+
+    for (const result of results) {
+      await writer.writeTestResult(result);
+    }
+
+    await writer.writeReport(report as Report);
+
+    return shardPath;
+  };
+
+  beforeEach(() => {
+    rootPath = mkdtempSync(path.join(tmpdir(), 'qase-merge-'));
+    outputPath = path.join(rootPath, 'merged');
+  });
+
+  afterEach(() => {
+    rmdirSync(rootPath, { recursive: true });
+  });
+
+  it('combines the results and the execution time of the shards', async () => {
+    const first = await writeShard(
+      'first',
+      { title: 'Nightly', environment: '', execution: { start_time: 10, end_time: 20, duration: 10, cumulative_duration: 1 } },
+      [createResult('1', 'login', TestStatusEnum.passed, 15)],
+    );
+    const second = await writeShard(
+      'second',
+      { title: 'Shard 2', environment: 'staging', execution: { start_time: 12, end_time: 30, duration: 18, cumulative_duration: 1 } },
+      [createResult('2', 'logout', TestStatusEnum.failed, 25)],
+    );
+
+    const report = await new ReportMerger(createLogger(), { path: outputPath }).merge([first, second]);
+
+    expect(report).toEqual(expect.objectContaining({
+      title: 'Nightly',
+      environment: 'staging',
+      execution: { start_time: 10, end_time: 30, duration: 20, cumulative_duration: 2000 },
+    }));
+    expect(report.stats).toEqual(expect.objectContaining({ total: 2, passed: 1, failed: 1 }));
+    expect(new FsReader(outputPath).readTestResults().map(({ id }) => id).sort()).toEqual(['1', '2']);
+  });
+
+  it('keeps the latest result of a test run by several shards', async () => {
+    const execution = { start_time: 0, end_time: 1, duration: 1, cumulative_duration: 1 };
+    const first = await writeShard('first', { title: 'Nightly', execution }, [
+      createResult('1', 'login', TestStatusEnum.failed, 20),
+    ]);
+    const second = await writeShard('second', { title: 'Nightly', execution }, [
+      createResult('2', 'login', TestStatusEnum.passed, 30),
+      createResult('1', 'login', TestStatusEnum.failed, 20),
+    ]);
+
+    const report = await new ReportMerger(createLogger(), { path: outputPath }).merge([first, second]);
+
+    expect(report.stats).toEqual(expect.objectContaining({ total: 1, passed: 1, failed: 0 }));
+    expect(new FsReader(outputPath).readTestResults().map(({ id }) => id)).toEqual(['2']);
+  });
+
+  it('copies the attachments to the merged report', async () => {
+    const logPath = path.join(rootPath, 'log.txt');
+    const result = createResult('1', 'login', TestStatusEnum.passed, 1);
+
+    writeFileSync(logPath, 'log');
+    result.attachments = [{ file_name: 'log.txt', mime_type: 'text/plain', file_path: logPath, content: '', size: 3, id: 'a' }];
+
+    const shard = await writeShard(
+      'first',
+      { title: 'Nightly', execution: { start_time: 0, end_time: 1, duration: 1, cumulative_duration: 1 } },
+      [result],
+    );
+
+    await new ReportMerger(createLogger(), { path: outputPath }).merge([shard]);
+
+    const [merged] = new FsReader(outputPath).readTestResults();
+
+    expect(merged?.attachments[0]?.file_path).toBe(path.join(outputPath, 'attachments', 'a-log.txt'));
+    expect(existsSync(path.join(outputPath, 'attachments', 'a-log.txt'))).toBe(true);
+  });
+
+  it('rejects an empty source list and a source directory as the output', async () => {
+    await expect(new ReportMerger(createLogger(), { path: outputPath }).merge([outputPath])).rejects.toThrow(QaseError);
+    await expect(new ReportMerger(createLogger(), { path: outputPath }).merge([])).rejects.toThrow(QaseError);
+  });
+});
@@ -0,0 +1,29 @@
+import { jest } from '@jest/globals';
+
+import { LoggerInterface } from '../src/utils/logger';
+
+/**
+ * @returns {LoggerInterface}
+ */
+export const createLogger = (): LoggerInterface => ({
+  log: jest.fn(),
+  logError: jest.fn(),
+  logDebug: jest.fn(),
+});
+
+/**
+ * @param {T} data
+ * @returns {Promise<{ data: T }>} the response of the API client
+ */
+export const response = <T>(data: T): Promise<{ data: T }> => Promise.resolve({ data });
+
+/**
+ * @param {number | undefined} status the status of the response, `undefined` if there is no response
+ * @param {string} message
+ * @returns {Error} an error thrown by axios
+ */
+export const axiosError = (status: number | undefined, message = 'Request failed'): Error =>
+  Object.assign(new Error(message), {
+    isAxiosError: true,
+    response: status === undefined ? undefined : { status, data: {} },
+  });
@@ -0,0 +1,41 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import { QaseApiInterface } from 'qaseio';
+
+import { TestPlan } from '../../src/plan';
+import { QaseError } from '../../src/utils/qase-error';
+import { response } from '../mocks';
+
+describe('TestPlan', () => {
+  it('gets the case IDs of the plan', async () => {
+    const getPlan = jest.fn<(code: string, id: number) => Promise<unknown>>(
+      () => response({ result: { cases: [{ case_id: 1 }, { case_id: 5 }, {}] } }),
+    );
+    const api = { plans: { getPlan } } as unknown as QaseApiInterface;
+
+    await expect(new TestPlan(api, 'DEMO').getCaseIds(3)).resolves.toEqual([1, 5]);
+    expect(getPlan.mock.calls[0]).toEqual(['DEMO', 3]);
+  });
+
+  it('throws when the plan is not found', async () => {
+    const api = { plans: { getPlan: jest.fn(() => response({})) } } as unknown as QaseApiInterface;
+
+    await expect(new TestPlan(api, 'DEMO').getCaseIds(3)).rejects.toThrow(QaseError);
+  });
+
+  it('matches the titles of the tests marked with the case IDs', () => {
+    const pattern = new RegExp(TestPlan.getGrepPattern([1, 5]));
+
+    expect(pattern.test('Logs in (Qase ID: 1)')).toBe(true);
+    expect(pattern.test('Logs in (Qase ID 5)')).toBe(true);
+    expect(pattern.test('Logs in (Qase ID: 3,5,7)')).toBe(true);
+    expect(pattern.test('Logs in (Qase ID: 15)')).toBe(false);
+    expect(pattern.test('Logs in (Qase ID: 51,3)')).toBe(false);
+    expect(pattern.test('Logs in')).toBe(false);
+  });
+
+  it('matches no test without the case IDs', () => {
+    const pattern = new RegExp(TestPlan.getGrepPattern([]));
+
+    expect(pattern.test('Logs in (Qase ID: 1)')).toBe(false);
+  });
+});
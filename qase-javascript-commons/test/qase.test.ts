@@ -0,0 +1,230 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { existsSync, mkdtempSync, readdirSync, rmdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+import { QaseReporter } from '../src/qase';
+import { TestResultType } from '../src/models';
+import { OptionsType } from '../src/options';
+import { StateManager } from '../src/state/state';
+import { TestOpsReporter, TestOpsOptionsType, registerMode, unregisterMode } from '../src/reporters';
+import { InternalReporterInterface } from '../src/reporters/abstract-reporter';
+
+/**
+ * The reporter is a singleton, the tests need a reporter each
+ *
+ * @param {OptionsType} options
+ * @returns {QaseReporter}
+ */
+const createReporter = (options: OptionsType): QaseReporter =>
+  new (QaseReporter as unknown as new (options: OptionsType) => QaseReporter)(options);
+
+/**
+ * @param {string} title
+ * @returns {TestResultType}
+ */
+const createResult = (title: string): TestResultType => Object.assign(new TestResultType(title), { id: uuidv4() });
+
+/**
+ * Calls the listener of the shutdown handler
+ *
+ * @param {QaseReporter} reporter
+ * @returns {Promise<void>}
+ */
+const interrupt = (reporter: QaseReporter): Promise<void> =>
+  (reporter as unknown as { interrupt(reason: string): Promise<void> }).interrupt('SIGINT');
+
+describe('QaseReporter', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    process.env['QASE_SESSION_ID'] = `test-${uuidv4()}`;
+    dir = mkdtempSync(join(tmpdir(), 'qase-report-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmdirSync(dir, { recursive: true });
+
+    // the reporter rejecting its options doesn't create the session
+    if (existsSync(StateManager.getSessionDir())) {
+      rmdirSync(StateManager.getSessionDir(), { recursive: true });
+    }
+  });
+
+  describe('getResults', () => {
+    it('keeps the results in the reporter', async () => {
+      const reporter = createReporter({
+        frameworkPackage: 'jest',
+        frameworkName: 'jest',
+        reporterName: 'jest-qase-reporter',
+        mode: 'report',
+        report: { connections: { local: { path: dir } } },
+      });
+
+      await reporter.addTestResult(createResult('first'));
+      await reporter.addTestResult(createResult('second'));
+
+      expect(reporter.getResults()).toHaveLength(2);
+      expect(reporter.getResults()).toHaveLength(2);
+    });
+  });
+
+  describe('interrupt', () => {
+    it('writes the buffered results to the report', async () => {
+      const reporter = createReporter({
+        frameworkPackage: 'jest',
+        frameworkName: 'jest',
+        reporterName: 'jest-qase-reporter',
+        mode: 'report',
+        report: { connections: { local: { path: dir } } },
+      });
+
+      await reporter.addTestResult(createResult('first'));
+      await reporter.addTestResult(createResult('second'));
+      await interrupt(reporter);
+
+      expect(readdirSync(join(dir, 'results'))).toHaveLength(2);
+    });
+
+    it('sends the buffered results to Qase', async () => {
+      const publishBatch = jest
+        .spyOn(
+          TestOpsReporter.prototype as unknown as { publishBatch(results: TestResultType[]): Promise<void> },
+          'publishBatch',
+        )
+        .mockResolvedValue(undefined);
+      const reporter = createReporter({
+        frameworkPackage: 'jest',
+        frameworkName: 'jest',
+        reporterName: 'jest-qase-reporter',
+        mode: 'testops',
+        testops: { api: { token: 'token' }, project: 'TEST' },
+        shutdown: { report: false },
+      });
+
+      await reporter.addTestResult(createResult('first'));
+      await reporter.addTestResult(createResult('second'));
+      await interrupt(reporter);
+
+      expect(publishBatch.mock.calls).toHaveLength(1);
+      expect(publishBatch.mock.calls[0]?.[0]).toHaveLength(2);
+    });
+  });
+
+  describe('run template', () => {
+    it('fills the placeholders of the run title, description, tags and custom fields', () => {
+      const reporter = createReporter({
+        frameworkPackage: 'jest',
+        frameworkName: 'jest',
+        reporterName: 'jest-qase-reporter',
+        mode: 'testops',
+        environment: 'staging',
+        testops: {
+          api: { token: 'token' },
+          project: 'TEST',
+          run: {
+            title: '{framework} run on {env}',
+            description: 'Run of {unknown}',
+            tags: ['{framework}', 'nightly'],
+            customFields: { '3': '{env}' },
+          },
+        },
+      });
+      const { upstreamReporter } = reporter as unknown as { upstreamReporter: { run: TestOpsOptionsType['run'] } };
+
+      expect(upstreamReporter.run).toEqual(expect.objectContaining({
+        title: 'jest run on staging',
+        description: 'Run of {unknown}',
+        tags: ['jest', 'nightly'],
+        customFields: { '3': 'staging' },
+      }));
+    });
+  });
+
+  describe('registered modes', () => {
+    const custom: jest.Mocked<InternalReporterInterface> = {
+      startTestRun: jest.fn(() => Promise.resolve()),
+      addTestResult: jest.fn(() => Promise.resolve()),
+      getTestResults: jest.fn(() => []),
+      setTestResults: jest.fn(),
+      sendResults: jest.fn(() => Promise.resolve()),
+      complete: jest.fn(() => Promise.resolve()),
+      publish: jest.fn(() => Promise.resolve()),
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      registerMode('custom', () => custom);
+    });
+
+    afterEach(() => {
+      unregisterMode('custom');
+    });
+
+    it('sends the results to the reporter of the registered mode', async () => {
+      const reporter = createReporter({
+        frameworkPackage: 'jest',
+        frameworkName: 'jest',
+        reporterName: 'jest-qase-reporter',
+        mode: 'custom',
+      });
+
+      await reporter.addTestResult(createResult('first'));
+
+      expect(custom.addTestResult.mock.calls[0]?.[0].title).toBe('first');
+    });
+
+    it('rejects the modes which are not registered', () => {
+      expect(() => createReporter({
+        frameworkPackage: 'jest',
+        frameworkName: 'jest',
+        reporterName: 'jest-qase-reporter',
+        mode: 'testops',
+        fallback: 'missing',
+      })).toThrow('Unknown mode "missing" in "fallback" parameter');
+    });
+  });
+
+  describe('multi mode', () => {
+    const addTestResult = jest.fn<(result: TestResultType) => Promise<void>>(() => Promise.resolve());
+
+    beforeEach(() => {
+      addTestResult.mockClear();
+      registerMode('custom', () => ({
+        startTestRun: () => Promise.resolve(),
+        addTestResult,
+        getTestResults: () => [],
+        setTestResults: () => undefined,
+        sendResults: () => Promise.resolve(),
+        complete: () => Promise.resolve(),
+        publish: () => Promise.resolve(),
+      }));
+    });
+
+    afterEach(() => {
+      unregisterMode('custom');
+    });
+
+    it('sends the results to each of the modes but itself', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const reporter = createReporter({
+        frameworkPackage: 'jest',
+        frameworkName: 'jest',
+        reporterName: 'jest-qase-reporter',
+        mode: 'multi',
+        multi: { modes: ['report', 'custom', 'multi'] },
+        report: { connections: { local: { path: dir } } },
+      });
+
+      await reporter.addTestResult(createResult('first'));
+      await reporter.publish();
+
+      expect(addTestResult.mock.calls[0]?.[0].title).toBe('first');
+      expect(readdirSync(join(dir, 'results'))).toHaveLength(1);
+      expect(error.mock.calls[0]?.[0]).toContain('Mode "multi" cannot be used as a destination of itself');
+    });
+  });
+});
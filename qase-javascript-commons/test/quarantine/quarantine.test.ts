@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { TestResultType, TestStatusEnum } from '../../src/models';
+import { Quarantine } from '../../src/quarantine';
+import { createLogger } from '../mocks';
+
+/**
+ * @param {TestStatusEnum} status
+ * @param {number | null} caseId
+ * @returns {TestResultType}
+ */
+const createResult = (status: TestStatusEnum, caseId: number | null = 1): TestResultType => ({
+  title: 'test',
+  signature: 'suite::test',
+  testops_id: caseId,
+  message: 'Expected true',
+  muted: false,
+  execution: { status },
+}) as TestResultType;
+
+describe('Quarantine', () => {
+  it('mutes the failures of the quarantined cases', () => {
+    const result = createResult(TestStatusEnum.failed);
+
+    expect(new Quarantine(createLogger(), { ids: [1] }).apply(result)).toBe(true);
+    expect(result.muted).toBe(true);
+    expect(result.message).toBe('Quarantined test, the failure is muted: case 1\n\nExpected true');
+  });
+
+  it('mutes the failures of the quarantined signatures', () => {
+    const result = createResult(TestStatusEnum.invalid, null);
+
+    expect(new Quarantine(createLogger(), { signatures: ['suite::test'] }).apply(result)).toBe(true);
+  });
+
+  it('does not mute the passed results', () => {
+    const result = createResult(TestStatusEnum.passed);
+
+    expect(new Quarantine(createLogger(), { ids: [1] }).apply(result)).toBe(false);
+    expect(result.muted).toBe(false);
+  });
+
+  it('mutes a result once', () => {
+    const result = createResult(TestStatusEnum.failed);
+
+    Quarantine.mute(result, 'case 1');
+
+    expect(Quarantine.mute(result, 'case 1')).toBe(false);
+    expect(result.message).toBe('Quarantined test, the failure is muted: case 1\n\nExpected true');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+
+import {
+  getModeFactory,
+  getModes,
+  hasMode,
+  registerMode,
+  unregisterMode,
+  ReporterFactoryType,
+} from '../../src/reporters/mode-registry';
+import { QaseError } from '../../src/utils/qase-error';
+
+describe('mode registry', () => {
+  const factory: ReporterFactoryType = () => {
+    throw new Error('not created in the tests');
+  };
+
+  afterEach(() => {
+    unregisterMode('custom');
+  });
+
+  it('registers a custom mode', () => {
+    registerMode('custom', factory);
+
+    expect(hasMode('custom')).toBe(true);
+    expect(getModeFactory('custom')).toBe(factory);
+    expect(getModes()).toEqual(['report', 'testops', 'multi', 'off', 'custom']);
+  });
+
+  it('knows the built-in modes', () => {
+    expect(hasMode('testops')).toBe(true);
+    expect(hasMode('custom')).toBe(false);
+    expect(getModeFactory('testops')).toBeUndefined();
+  });
+
+  it('rejects the built-in and the registered modes', () => {
+    registerMode('custom', factory);
+
+    expect(() => registerMode('report', factory)).toThrow(QaseError);
+    expect(() => registerMode('custom', factory)).toThrow('Mode "custom" is already registered');
+  });
+
+  it('unregisters a mode', () => {
+    registerMode('custom', factory);
+
+    expect(unregisterMode('custom')).toBe(true);
+    expect(unregisterMode('custom')).toBe(false);
+    expect(hasMode('custom')).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+
+import { InternalReporterInterface } from '../../src/reporters/abstract-reporter';
+import { MultiReporter } from '../../src/reporters/multi-reporter';
+import { TestResultType, TestStatusEnum } from '../../src/models';
+import { QaseError } from '../../src/utils/qase-error';
+import { createLogger } from '../mocks';
+
+const createReporter = (results: TestResultType[] = []): jest.Mocked<InternalReporterInterface> => ({
+  startTestRun: jest.fn(() => Promise.resolve()),
+  addTestResult: jest.fn(() => Promise.resolve()),
+  getTestResults: jest.fn(() => results),
+  setTestResults: jest.fn(),
+  sendResults: jest.fn(() => Promise.resolve()),
+  complete: jest.fn(() => Promise.resolve()),
+  publish: jest.fn(() => Promise.resolve()),
+});
+
+const result = { id: '1', title: 'test', execution: { status: TestStatusEnum.passed } } as TestResultType;
+
+describe('MultiReporter', () => {
+  let testops: jest.Mocked<InternalReporterInterface>;
+  let report: jest.Mocked<InternalReporterInterface>;
+  let reporter: MultiReporter;
+
+  beforeEach(() => {
+    testops = createReporter([result]);
+    report = createReporter();
+    reporter = new MultiReporter(createLogger(), [
+      { mode: 'testops', reporter: testops },
+      { mode: 'report', reporter: report },
+    ]);
+  });
+
+  it('calls a failed destination again with the next results', async () => {
+    testops.addTestResult.mockRejectedValueOnce(new Error('Network Error'));
+
+    await reporter.addTestResult(result);
+    expect(reporter.getDestinationStatuses()).toEqual({ testops: false, report: true });
+
+    await reporter.addTestResult(result);
+    expect(testops.addTestResult.mock.calls).toHaveLength(2);
+    expect(reporter.getDestinationStatuses()).toEqual({ testops: true, report: true });
+  });
+
+  it('throws when all destinations fail the same call', async () => {
+    testops.sendResults.mockRejectedValueOnce(new Error('Network Error'));
+    report.sendResults.mockRejectedValueOnce(new Error('EACCES'));
+
+    await expect(reporter.sendResults()).rejects.toThrow(QaseError);
+  });
+
+  it('gets the results of the first destination which has not failed', async () => {
+    expect(reporter.getTestResults()).toEqual([result]);
+    expect(report.getTestResults.mock.calls).toHaveLength(0);
+
+    testops.publish.mockRejectedValueOnce(new Error('Network Error'));
+    await reporter.publish();
+
+    expect(reporter.getTestResults()).toEqual([]);
+    expect(report.getTestResults.mock.calls).toHaveLength(1);
+  });
+
+  it('gives each destination its own copy of the result', async () => {
+    await reporter.addTestResult(result);
+
+    expect(testops.addTestResult.mock.calls[0]?.[0]).not.toBe(result);
+    expect(testops.addTestResult.mock.calls[0]?.[0]).toEqual(result);
+    expect(report.addTestResult.mock.calls[0]?.[0]).toBe(result);
+  });
+
+  it('mutes the result when a destination mutes its copy', async () => {
+    const failed = {
+      id: '2',
+      title: 'test',
+      execution: { status: TestStatusEnum.failed },
+      muted: false,
+      message: null,
+    } as TestResultType;
+
+    await reporter.addTestResult(failed);
+
+    testops.publish.mockImplementationOnce(() => {
+      const copy = testops.addTestResult.mock.calls[0]?.[0];
+
+      if (copy) {
+        copy.muted = true;
+        copy.message = 'Quarantined test';
+      }
+
+      return Promise.resolve();
+    });
+    await reporter.publish();
+
+    expect(failed.muted).toBe(true);
+    expect(failed.message).toBe('Quarantined test');
+  });
+});
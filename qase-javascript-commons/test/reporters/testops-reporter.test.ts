@@ -0,0 +1,325 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmdirSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { CreateResultsRequestV2, QaseApiInterface, Result, ResultCreateBulk, RunCreate } from 'qaseio';
+import { v4 as uuidv4 } from 'uuid';
+
+import { TestOpsOptionsType, TestOpsReporter } from '../../src/reporters';
+import { StepStatusEnum, TestResultType, TestStatusEnum, TestStepType } from '../../src/models';
+import { Spool } from '../../src/spool';
+import { StateManager } from '../../src/state/state';
+import { axiosError, createLogger, response } from '../mocks';
+
+/**
+ * @param {string} title
+ * @returns {TestResultType}
+ */
+const createResult = (title: string): TestResultType => Object.assign(new TestResultType(title), { id: uuidv4() });
+
+describe('TestOpsReporter', () => {
+  describe('flush interval', () => {
+    let createResultBulk: jest.Mock<(code: string, runId: number, bulk: ResultCreateBulk) => Promise<unknown>>;
+    let reporter: TestOpsReporter;
+
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      createResultBulk = jest.fn<(code: string, runId: number, bulk: ResultCreateBulk) => Promise<unknown>>(
+        () => response({ status: true }),
+      );
+      reporter = new TestOpsReporter(
+        createLogger(),
+        {
+          project: 'TEST',
+          uploadAttachments: false,
+          run: { id: 1 },
+          plan: {},
+          batch: { size: 10, interval: 1 },
+        } as TestOpsOptionsType,
+        { results: { createResultBulk } } as unknown as QaseApiInterface,
+      );
+
+      await reporter.startTestRun();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    /**
+     * @returns {number[]} the count of the results in each sent batch
+     */
+    const sentBatches = (): number[] => createResultBulk.mock.calls.map(([, , { results }]) => results.length);
+
+    it('sends the results reported since the last batch', async () => {
+      await reporter.addTestResult(createResult('first'));
+      await jest.advanceTimersByTimeAsync(1000);
+      await reporter.addTestResult(createResult('second'));
+      await reporter.addTestResult(createResult('third'));
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(sentBatches()).toEqual([1, 2]);
+    });
+
+    it('sends a failed batch again on the next tick', async () => {
+      createResultBulk.mockImplementationOnce(() => Promise.reject(axiosError(500)));
+
+      await reporter.addTestResult(createResult('first'));
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(sentBatches()).toEqual([1, 1]);
+    });
+
+    it('sends a failed batch with the rest of the results', async () => {
+      createResultBulk.mockImplementationOnce(() => Promise.reject(axiosError(500)));
+
+      await reporter.addTestResult(createResult('first'));
+      await jest.advanceTimersByTimeAsync(1000);
+      await reporter.addTestResult(createResult('second'));
+      await reporter.sendResults();
+
+      expect(sentBatches()).toEqual([1, 2]);
+    });
+  });
+
+  describe('known flaky tests', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('adds the flaky score to the comment once, not to the case fields', async () => {
+      jest.useFakeTimers();
+      const history: Result[] = ['passed', 'failed', 'passed', 'failed'].map((status, index) => ({
+        case_id: 1,
+        run_id: index + 2,
+        status,
+        end_time: `2024-01-0${index + 1} 00:00:00`,
+      }));
+      const createResultsV2 = jest.fn<(code: string, runId: number, request: CreateResultsRequestV2) => Promise<unknown>>()
+        .mockRejectedValueOnce(axiosError(500))
+        .mockImplementation(() => response({}));
+      const api = {
+        results: { getResults: () => response({ result: { entities: history } }) },
+        result: { createResultsV2 },
+      } as unknown as QaseApiInterface;
+      const reporter = new TestOpsReporter(
+        createLogger(),
+        {
+          project: 'TEST',
+          uploadAttachments: false,
+          run: { id: 1 },
+          plan: {},
+          useV2: true,
+          batch: { interval: 1 },
+          flaky: { enabled: true },
+        } as TestOpsOptionsType,
+        api,
+      );
+      const result = Object.assign(createResult('flaky'), {
+        testops_id: 1,
+        execution: { ...createResult('flaky').execution, status: TestStatusEnum.failed },
+      });
+
+      await reporter.startTestRun();
+      await reporter.addTestResult(result);
+      // the failed batch is sent again on the next tick
+      await jest.advanceTimersByTimeAsync(2000);
+
+      const [sent] = createResultsV2.mock.calls[1]?.[2].results ?? [];
+
+      expect(sent?.message?.match(/Known flaky test/g)).toHaveLength(1);
+      expect(sent?.fields).not.toHaveProperty('flaky_score');
+    });
+  });
+
+  describe('payload', () => {
+    const createResultBulk = jest.fn<(code: string, runId: number, bulk: ResultCreateBulk) => Promise<unknown>>(
+      () => response({}),
+    );
+    const createResultsV2 = jest.fn<(code: string, runId: number, request: CreateResultsRequestV2) => Promise<unknown>>(
+      () => response({}),
+    );
+    const api = { results: { createResultBulk }, result: { createResultsV2 } } as unknown as QaseApiInterface;
+
+    /**
+     * @param {boolean} useV2
+     * @returns {Promise<TestOpsReporter>}
+     */
+    const createReporter = async (useV2: boolean): Promise<TestOpsReporter> => {
+      const reporter = new TestOpsReporter(
+        createLogger(),
+        { project: 'TEST', uploadAttachments: false, run: { id: 1 }, plan: {}, useV2 } as TestOpsOptionsType,
+        api,
+      );
+
+      await reporter.startTestRun();
+
+      return reporter;
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('sends the expected result and the input data of the steps to the V1 API', async () => {
+      const step = new TestStepType();
+
+      step.data = { action: 'Log in', expected_result: 'The dashboard is shown', input_data: 'admin' };
+      step.execution.status = StepStatusEnum.passed;
+      step.execution.comment = 'Logged in';
+
+      const reporter = await createReporter(false);
+
+      await reporter.addTestResult(Object.assign(createResult('login'), { steps: [step] }));
+      await reporter.sendResults();
+
+      expect(createResultBulk.mock.calls[0]?.[2].results[0]?.steps).toEqual([expect.objectContaining({
+        action: 'Log in',
+        expected_result: 'The dashboard is shown',
+        data: 'admin',
+        comment: 'Logged in',
+      })]);
+    });
+
+    it('sends the parameter groups to the V2 API', async () => {
+      const reporter = await createReporter(true);
+
+      await reporter.addTestResult(Object.assign(createResult('login'), {
+        params: { browser: 'chromium' },
+        group_params: { user: 'admin', role: 'owner' },
+      }));
+      await reporter.sendResults();
+
+      expect(createResultsV2.mock.calls[0]?.[2].results?.[0]).toEqual(expect.objectContaining({
+        params: { browser: 'chromium', user: 'admin', role: 'owner' },
+        param_groups: [['user', 'role']],
+      }));
+    });
+  });
+
+  describe('spool', () => {
+    let spoolPath: string;
+
+    beforeEach(() => {
+      process.env['QASE_SESSION_ID'] = `test-${uuidv4()}`;
+      spoolPath = mkdtempSync(path.join(tmpdir(), 'qase-spool-'));
+    });
+
+    afterEach(() => {
+      rmdirSync(spoolPath, { recursive: true });
+      rmdirSync(StateManager.getSessionDir(), { recursive: true });
+      Reflect.deleteProperty(process.env, 'QASE_SESSION_ID');
+      Reflect.deleteProperty(process.env, 'QASE_TESTOPS_RUN_ID');
+    });
+
+    it('saves the run payload when Qase is unreachable', async () => {
+      const unreachable = (): Promise<unknown> => Promise.reject(axiosError(undefined, 'Network Error'));
+      const reporter = new TestOpsReporter(
+        createLogger(),
+        {
+          project: 'TEST',
+          uploadAttachments: false,
+          run: {
+            title: 'Nightly',
+            description: 'Spooled run',
+            complete: true,
+            milestone: 'Release 1',
+            tags: ['nightly'],
+            customFields: { '3': 'chromium' },
+          },
+          plan: { id: 5 },
+          spool: { enabled: true, path: spoolPath },
+        } as TestOpsOptionsType,
+        { runs: { createRun: jest.fn(unreachable) }, milestones: { getMilestones: jest.fn(unreachable) } } as unknown as QaseApiInterface,
+      );
+
+      await reporter.startTestRun();
+
+      const [session] = Spool.getSessions(spoolPath);
+
+      expect(new Spool(spoolPath, session).readManifest()).toEqual({
+        project: 'TEST',
+        runId: null,
+        run: expect.objectContaining({
+          title: 'Nightly',
+          description: 'Spooled run',
+          tags: ['nightly'],
+          custom_field: { '3': 'chromium' },
+          plan_id: 5,
+        }) as unknown,
+        entities: expect.objectContaining({ milestone: 'Release 1' }) as unknown,
+        complete: true,
+        attachments: {},
+      });
+    });
+  });
+
+  describe('run creation', () => {
+    const createRun = jest.fn<(code: string, run: RunCreate) => Promise<unknown>>(
+      () => response({ result: { id: 9 } }),
+    );
+
+    /**
+     * @param {Partial<TestOpsOptionsType['run']>} run
+     * @returns {Promise<RunCreate | undefined>} the payload of the created run
+     */
+    const startRun = async (run: Partial<TestOpsOptionsType['run']>): Promise<RunCreate | undefined> => {
+      const reporter = new TestOpsReporter(
+        createLogger(),
+        {
+          project: 'TEST',
+          uploadAttachments: false,
+          run: { title: 'Nightly', description: 'Automated run', complete: true, ...run },
+          plan: {},
+        } as TestOpsOptionsType,
+        { runs: { createRun } } as unknown as QaseApiInterface,
+      );
+
+      await reporter.startTestRun();
+
+      return createRun.mock.calls[0]?.[1];
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      process.env['QASE_SESSION_ID'] = `test-${uuidv4()}`;
+    });
+
+    afterEach(() => {
+      rmdirSync(StateManager.getSessionDir(), { recursive: true });
+      Reflect.deleteProperty(process.env, 'QASE_SESSION_ID');
+      Reflect.deleteProperty(process.env, 'QASE_TESTOPS_RUN_ID');
+    });
+
+    it('links a re-run to the run it re-runs', async () => {
+      const run = await startRun({ rerunId: 5 });
+
+      expect(run?.description).toContain('Automated run\n\n');
+      expect(run?.description).toContain('Re-run of the failed tests of run 5: https://app.qase.io/run/TEST/dashboard/5');
+    });
+
+    it('adds the tags and the custom fields with a value to the run', async () => {
+      const run = await startRun({
+        tags: ['nightly', 'smoke', 'nightly'],
+        customFields: { '3': 'chromium', '4': undefined },
+      });
+
+      expect(run?.tags).toEqual(['nightly', 'smoke']);
+      expect(run?.custom_field).toEqual({ '3': 'chromium' });
+    });
+
+    it('adds the CI build to the description and the tags of the run', async () => {
+      Object.assign(process.env, { GITHUB_ACTIONS: 'true', GITHUB_REF_NAME: 'main', GITHUB_SHA: 'abc' });
+
+      try {
+        const run = await startRun({ tags: ['nightly'] });
+
+        expect(run?.description).toBe('Automated run\n\nGitHub Actions build\nBranch: main, commit abc');
+        expect(run?.tags).toEqual(['nightly', 'github-actions', 'main']);
+      } finally {
+        ['GITHUB_ACTIONS', 'GITHUB_REF_NAME', 'GITHUB_SHA'].forEach((name) => Reflect.deleteProperty(process.env, name));
+      }
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import { QaseApiInterface, Result } from 'qaseio';
+
+import { FailedTests } from '../../src/rerun';
+import { response } from '../mocks';
+
+type GetResultsType = (
+  code: string,
+  status?: string,
+  run?: string,
+  caseId?: string,
+  member?: string,
+  api?: boolean,
+  fromEndTime?: string,
+  toEndTime?: string,
+  limit?: number,
+  offset?: number,
+) => Promise<unknown>;
+
+/**
+ * @param {Result[][]} pages
+ * @returns {jest.Mock<GetResultsType>}
+ */
+const mockResults = (pages: Result[][]): jest.Mock<GetResultsType> => {
+  const getResults = jest.fn<GetResultsType>(() => response({ result: { entities: [] } }));
+
+  for (const entities of pages) {
+    getResults.mockImplementationOnce(() => response({ result: { entities } }));
+  }
+
+  return getResults;
+};
+
+describe('FailedTests', () => {
+  it('selects the cases whose latest result failed', async () => {
+    const getResults = mockResults([[
+      { case_id: 1, status: 'failed', end_time: '2024-01-01 10:00:00' },
+      { case_id: 1, status: 'passed', end_time: '2024-01-01 11:00:00' },
+      { case_id: 2, status: 'passed', end_time: '2024-01-01 10:00:00' },
+      { case_id: 2, status: 'invalid', end_time: '2024-01-01 11:00:00' },
+      { case_id: 3, status: 'skipped', end_time: '2024-01-01 10:00:00' },
+      { status: 'failed', end_time: '2024-01-01 10:00:00' },
+    ]]);
+    const api = { results: { getResults } } as unknown as QaseApiInterface;
+
+    await expect(new FailedTests(api, 'DEMO').getCaseIds(7)).resolves.toEqual([2]);
+    expect(getResults.mock.calls[0]?.[2]).toBe('7');
+  });
+
+  it('pages through the results of the run', async () => {
+    const firstPage = Array.from({ length: 100 }, (_, index): Result => ({ case_id: index + 1, status: 'passed' }));
+    const getResults = mockResults([firstPage, [{ case_id: 101, status: 'failed' }]]);
+    const api = { results: { getResults } } as unknown as QaseApiInterface;
+
+    await expect(new FailedTests(api, 'DEMO').getCaseIds(7)).resolves.toEqual([101]);
+    expect(getResults.mock.calls.map((call) => call[9])).toEqual([0, 100]);
+  });
+});
@@ -0,0 +1,90 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { Milestone, MilestoneCreate, QaseApiInterface } from 'qaseio';
+
+import { SharedRun } from '../../src/shared-run';
+import { axiosError, createLogger, response } from '../mocks';
+
+describe('SharedRun', () => {
+  // the milestones of the project in Qase, shared by the shards on all the machines
+  const milestones: Milestone[] = [];
+  const completeRun = jest.fn(() => response({ status: true }));
+  const getRun = jest.fn(() => response({ result: { id: 1, status: 0 } }));
+  const getMilestones = jest.fn<(code: string, search: string) => Promise<unknown>>((_code, search) => response({
+    result: { entities: milestones.filter(({ title }) => title?.includes(search)) },
+  }));
+  const createMilestone = jest.fn((_code: string, { title }: MilestoneCreate) => {
+    milestones.push({ id: milestones.length + 1, title });
+
+    return response({ result: { id: milestones.length } });
+  });
+  const deleteMilestone = jest.fn((_code: string, id: number) => {
+    milestones.splice(milestones.findIndex((milestone) => milestone.id === id), 1);
+
+    return response({ result: { id } });
+  });
+  const api = {
+    runs: { completeRun, getRun },
+    milestones: { getMilestones, createMilestone, deleteMilestone },
+  } as unknown as QaseApiInterface;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    milestones.length = 0;
+  });
+
+  /**
+   * Each shard has its own reporter, as on a separate machine
+   *
+   * @param {string} shard
+   * @returns {SharedRun}
+   */
+  const createShard = (shard: string): SharedRun => new SharedRun(createLogger(), api, 'DEMO', {
+    key: 'pipeline-1',
+    shards: 2,
+    shard,
+  });
+
+  it('is finished when all the shards have finished', async () => {
+    await expect(createShard('1').finish(1)).resolves.toBe(false);
+    await expect(createShard('2').finish(1)).resolves.toBe(true);
+  });
+
+  it('counts a shard once', async () => {
+    await expect(createShard('1').finish(1)).resolves.toBe(false);
+    await expect(createShard('1').finish(1)).resolves.toBe(false);
+    expect(createMilestone.mock.calls).toHaveLength(1);
+  });
+
+  it('does not count the shards of another run', async () => {
+    await expect(createShard('1').finish(1)).resolves.toBe(false);
+    await expect(createShard('2').finish(11)).resolves.toBe(false);
+  });
+
+  it('is not finished without the number of shards', async () => {
+    await expect(new SharedRun(createLogger(), api, 'DEMO', { key: 'pipeline-1', shard: '1' }).finish(1))
+      .resolves.toBe(false);
+    expect(createMilestone.mock.calls).toHaveLength(0);
+  });
+
+  it('removes the markers of the shards when the run is completed', async () => {
+    await createShard('1').finish(1);
+    await createShard('2').finish(1);
+    await createShard('2').complete(1);
+
+    expect(completeRun.mock.calls).toHaveLength(1);
+    expect(milestones).toEqual([]);
+  });
+
+  it('accepts the run completed by another shard', async () => {
+    completeRun.mockReturnValueOnce(Promise.reject(axiosError(400)));
+    getRun.mockReturnValueOnce(response({ result: { id: 1, status: 1 } }));
+
+    await expect(createShard('1').complete(1)).resolves.toBeUndefined();
+  });
+
+  it('throws when the run is not completed', async () => {
+    completeRun.mockReturnValueOnce(Promise.reject(axiosError(500)));
+
+    await expect(createShard('1').complete(1)).rejects.toThrow('Request failed');
+  });
+});
@@ -0,0 +1,71 @@
+import { jest, describe, it, expect, afterEach } from '@jest/globals';
+
+import { ShutdownHandler } from '../../src/shutdown';
+import { createLogger } from '../mocks';
+
+const events = ['SIGINT', 'SIGTERM', 'unhandledRejection', 'uncaughtException'] as const;
+
+/**
+ * @returns {number[]}
+ */
+const countListeners = (): number[] => events.map((event) => process.listenerCount(event));
+
+describe('ShutdownHandler', () => {
+  let handler: ShutdownHandler | undefined;
+
+  afterEach(() => {
+    handler?.dispose();
+    jest.restoreAllMocks();
+  });
+
+  it('removes the listeners on dispose', () => {
+    const before = countListeners();
+
+    handler = new ShutdownHandler(createLogger(), () => Promise.resolve());
+    handler.register();
+
+    expect(countListeners()).toEqual(before.map((count) => count + 1));
+
+    handler.dispose();
+
+    expect(countListeners()).toEqual(before);
+  });
+
+  it('runs the callback and exits with the signal code', async () => {
+    const exit = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+    const callback = jest.fn(() => Promise.resolve());
+
+    handler = new ShutdownHandler(createLogger(), callback);
+    handler.register();
+    process.emit('SIGTERM', 'SIGTERM');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(callback).toHaveBeenCalledWith('SIGTERM');
+    expect(exit).toHaveBeenCalledWith(143);
+  });
+
+  it('exits when the callback exceeds the timeout', async () => {
+    const exit = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+    handler = new ShutdownHandler(createLogger(), () => new Promise(() => undefined), 10);
+    handler.register();
+    process.emit('SIGTERM', 'SIGTERM');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(exit).toHaveBeenCalledWith(143);
+  });
+
+  it('leaves the errors handled by the test framework to it', async () => {
+    const callback = jest.fn(() => Promise.resolve());
+    const frameworkListener = (): void => undefined;
+
+    process.on('uncaughtException', frameworkListener);
+    handler = new ShutdownHandler(createLogger(), callback);
+    handler.register();
+    process.emit('uncaughtException', new Error('error'));
+    await new Promise((resolve) => setImmediate(resolve));
+    process.removeListener('uncaughtException', frameworkListener);
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,139 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { existsSync, mkdtempSync, ReadStream, rmdirSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { QaseApiInterface } from 'qaseio';
+
+import { Spool, SpoolManifestType, SpoolReplayer } from '../../src/spool';
+import { QaseError } from '../../src/utils/qase-error';
+import { createLogger, response } from '../mocks';
+
+const manifest: SpoolManifestType = {
+  project: 'DEMO',
+  runId: null,
+  run: {
+    title: 'Run',
+    description: 'Spooled run\n\nCI: GitHub Actions',
+    is_autotest: true,
+    cases: [],
+    start_time: '2024-01-01 00:00:00',
+    tags: ['nightly'],
+    custom_field: { '3': 'chromium' },
+    plan_id: 5,
+  },
+  entities: { environment: 'staging', milestone: 'Release 1' },
+  complete: true,
+  attachments: {},
+};
+
+describe('SpoolReplayer', () => {
+  let rootPath: string;
+  let spool: Spool;
+
+  const createRun = jest.fn(() => response({ result: { id: 7 } }));
+  const getEnvironments = jest.fn(() => response({ result: { entities: [{ id: 2, slug: 'staging' }] } }));
+  const getMilestones = jest.fn(() => response({ result: { entities: [{ id: 4, title: 'Release 1' }] } }));
+  const completeRun = jest.fn(() => response({ status: true }));
+  const createResultsV2 = jest.fn(() => response({}));
+  const uploadAttachment = jest.fn(async (_project: string, files: { value: ReadStream }[]) => {
+    // the client reads the files before the response
+    for (const { value } of files) {
+      await new Promise((resolve, reject) => value.on('close', resolve).on('error', reject).resume());
+    }
+
+    return response({ result: [{ hash: 'uploaded-hash' }] });
+  });
+
+  const api = {
+    runs: { createRun, completeRun },
+    environment: { getEnvironments },
+    milestones: { getMilestones },
+    result: { createResultsV2 },
+    attachments: { uploadAttachment },
+  } as unknown as QaseApiInterface;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rootPath = mkdtempSync(path.join(tmpdir(), 'qase-spool-'));
+    spool = new Spool(rootPath, 'session');
+    spool.writeManifest(manifest);
+  });
+
+  afterEach(() => {
+    rmdirSync(rootPath, { recursive: true });
+  });
+
+  it('creates the run, uploads the attachments and sends the batches', async () => {
+    const placeholder = spool.writeAttachment({
+      file_name: 'log.txt',
+      file_path: null,
+      mime_type: 'text/plain',
+      content: 'log',
+      size: 3,
+      id: '1',
+    });
+
+    spool.writeBatch({
+      useV2: true,
+      results: [{ title: 'test', execution: { status: 'failed' }, attachments: ['hash', placeholder] }],
+    });
+
+    await expect(new SpoolReplayer(createLogger(), api).replay(rootPath)).resolves.toBe(1);
+
+    expect(createRun.mock.calls[0]).toEqual(['DEMO', {
+      ...manifest.run,
+      environment_id: 2,
+      milestone_id: 4,
+    }]);
+    expect(createResultsV2.mock.calls[0]).toEqual(['DEMO', 7, {
+      results: [{ title: 'test', execution: { status: 'failed' }, attachments: ['hash', 'uploaded-hash'] }],
+    }]);
+    expect(completeRun.mock.calls[0]).toEqual(['DEMO', 7]);
+    expect(existsSync(spool.path)).toBe(false);
+  });
+
+  it('keeps the run ID and the batches which were not sent', async () => {
+    spool.writeBatch({ useV2: true, results: [{ title: 'first', execution: { status: 'passed' } }] });
+    spool.writeBatch({ useV2: true, results: [{ title: 'second', execution: { status: 'passed' } }] });
+    createResultsV2
+      .mockImplementationOnce(() => response({}))
+      .mockImplementationOnce(() => Promise.reject(new Error('Network Error')));
+
+    await expect(new SpoolReplayer(createLogger(), api).replaySession(spool)).rejects.toThrow(QaseError);
+
+    expect(spool.readManifest().runId).toBe(7);
+    expect(spool.getBatches()).toHaveLength(1);
+
+    await new SpoolReplayer(createLogger(), api).replaySession(spool);
+
+    expect(createRun.mock.calls).toHaveLength(1);
+    expect(createResultsV2.mock.calls[2]).toEqual(['DEMO', 7, {
+      results: [{ title: 'second', execution: { status: 'passed' } }],
+    }]);
+  });
+
+  it('keeps the hashes of the uploaded attachments when the replay is interrupted', async () => {
+    const placeholder = spool.writeAttachment({
+      file_name: 'log.txt',
+      file_path: null,
+      mime_type: 'text/plain',
+      content: 'log',
+      size: 3,
+      id: '1',
+    });
+
+    spool.writeBatch({ useV2: true, results: [{ title: 'test', execution: { status: 'failed' }, attachments: [placeholder] }] });
+    createResultsV2.mockImplementationOnce(() => Promise.reject(new Error('Network Error')));
+
+    await expect(new SpoolReplayer(createLogger(), api).replaySession(spool)).rejects.toThrow(QaseError);
+
+    expect(spool.readManifest().attachments).toEqual({ [placeholder]: 'uploaded-hash' });
+
+    await new SpoolReplayer(createLogger(), api).replaySession(spool);
+
+    expect(uploadAttachment.mock.calls).toHaveLength(1);
+    expect(createResultsV2.mock.calls[1]).toEqual(['DEMO', 7, {
+      results: [{ title: 'test', execution: { status: 'failed' }, attachments: ['uploaded-hash'] }],
+    }]);
+  });
+});
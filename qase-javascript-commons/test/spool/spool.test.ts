@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { existsSync, mkdtempSync, readFileSync, rmdirSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { ResultCreateV2, ResultStepStatus } from 'qaseio';
+
+import { getAttachmentHashLists, Spool, SpoolBatchType, spoolAttachmentPrefix } from '../../src/spool';
+
+describe('Spool', () => {
+  let rootPath: string;
+
+  beforeEach(() => {
+    rootPath = mkdtempSync(path.join(tmpdir(), 'qase-spool-'));
+  });
+
+  afterEach(() => {
+    rmdirSync(rootPath, { recursive: true });
+  });
+
+  it('lists only the sessions with a manifest', () => {
+    const spool = new Spool(rootPath, 'b-session');
+
+    spool.writeManifest({
+      project: 'DEMO',
+      runId: null,
+      run: { title: 'Run', description: '', is_autotest: true, cases: [] },
+      entities: {},
+      complete: true,
+      attachments: {},
+    });
+    new Spool(rootPath, 'a-session').writeBatch({ useV2: true, results: [] });
+
+    expect(Spool.getSessions(rootPath)).toEqual(['b-session']);
+    expect(spool.readManifest().project).toBe('DEMO');
+  });
+
+  it('stores the batches in order', () => {
+    const spool = new Spool(rootPath, 'session');
+
+    spool.writeBatch({ useV2: false, results: [{ status: 'passed' }] });
+    spool.writeBatch({ useV2: false, results: [{ status: 'failed' }] });
+
+    const batches = spool.getBatches();
+
+    expect(batches.map((name) => spool.readBatch(name).results[0])).toEqual([
+      { status: 'passed' },
+      { status: 'failed' },
+    ]);
+
+    spool.removeBatch(batches[0] ?? '');
+    expect(spool.getBatches()).toHaveLength(1);
+  });
+
+  it('copies the attachments and refers to them by placeholders', () => {
+    const spool = new Spool(rootPath, 'session');
+    const placeholder = spool.writeAttachment({
+      file_name: 'log.txt',
+      file_path: null,
+      mime_type: 'text/plain',
+      content: 'log',
+      size: 3,
+      id: '1',
+    });
+
+    expect(placeholder.startsWith(spoolAttachmentPrefix)).toBe(true);
+
+    const attachment = spool.getAttachment(placeholder);
+
+    expect(attachment.name).toBe('log.txt');
+    expect(readFileSync(attachment.path, 'utf8')).toBe('log');
+
+    spool.remove();
+    expect(existsSync(spool.path)).toBe(false);
+  });
+
+  it('finds the attachment lists of the results and the nested steps', () => {
+    const result: ResultCreateV2 = {
+      title: 'test',
+      execution: { status: 'passed' },
+      attachments: ['a'],
+      steps: [{
+        execution: { status: ResultStepStatus.PASSED, attachments: ['b'] },
+        steps: [{ execution: { status: 'passed', attachments: ['c'] } }],
+      }],
+    };
+    const batch: SpoolBatchType = { useV2: true, results: [result] };
+
+    expect(getAttachmentHashLists(batch)).toEqual([['a'], ['b'], ['c']]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { existsSync, mkdtempSync, rmdirSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { FileLock } from '../../src/state/file-lock';
+
+describe('FileLock', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'qase-lock-'));
+    path = join(dir, 'test.lock');
+  });
+
+  afterEach(() => {
+    rmdirSync(dir, { recursive: true });
+  });
+
+  it('holds the lock while the lock file exists', () => {
+    const lock = new FileLock(path, 1000);
+
+    lock.acquireSync();
+    expect(existsSync(path)).toBe(true);
+
+    lock.release();
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it('waits for the holder which is running', () => {
+    new FileLock(path, 50).acquireSync();
+
+    // the lock is taken over only when it's stale
+    const started = Date.now();
+
+    new FileLock(path, 50).acquireSync();
+    expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+  });
+
+  it('takes over the lock of a process which has exited', () => {
+    // the largest PID on Linux, no process has it
+    writeFileSync(path, '4194304');
+
+    const started = Date.now();
+
+    new FileLock(path, 10_000).acquireSync();
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('takes over a stale lock', () => {
+    writeFileSync(path, String(process.pid));
+    utimesSync(path, new Date(0), new Date(0));
+
+    expect(() => new FileLock(path, 1000).acquireSync()).not.toThrow();
+  });
+
+  it('gives up after the timeout', () => {
+    new FileLock(path, 10_000).acquireSync();
+
+    expect(() => new FileLock(path, 10_000).acquireSync(50)).toThrow();
+  });
+
+  it('waits for the lock without blocking the event loop', async () => {
+    const lock = new FileLock(path, 10_000);
+    let isReleased = false;
+
+    lock.acquireSync();
+    setTimeout(() => {
+      isReleased = true;
+      lock.release();
+    }, 50);
+
+    await new FileLock(path, 10_000).acquire();
+    expect(isReleased).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { readFileSync, rmdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+import { StateManager } from '../../src/state/state';
+import { createLogger } from '../mocks';
+
+describe('StateManager', () => {
+  beforeEach(() => {
+    process.env['QASE_SESSION_ID'] = `test-${uuidv4()}`;
+    StateManager.initState({ RunId: undefined, Mode: undefined, IsModeChanged: undefined });
+  });
+
+  afterEach(() => {
+    rmdirSync(StateManager.getSessionDir(), { recursive: true });
+  });
+
+  it('lets one process create the run', async () => {
+    await expect(StateManager.claimRun()).resolves.toBeUndefined();
+
+    StateManager.setRunId(7);
+
+    await expect(StateManager.claimRun()).resolves.toBe(7);
+  });
+
+  it('waits for the run created by another process', async () => {
+    const statePath = join(StateManager.getSessionDir(), 'state.json');
+    const state = JSON.parse(readFileSync(statePath, 'utf8')) as Record<string, unknown>;
+
+    // the parent process is running, so it's considered to be creating the run
+    writeFileSync(statePath, JSON.stringify({ ...state, RunCreator: process.ppid }));
+    setTimeout(() => StateManager.setRunId(8), 200);
+
+    await expect(StateManager.claimRun()).resolves.toBe(8);
+  });
+
+  it('lets another process create the run after a failure', async () => {
+    await StateManager.claimRun();
+    StateManager.releaseRun();
+
+    const state = JSON.parse(readFileSync(join(StateManager.getSessionDir(), 'state.json'), 'utf8')) as Record<string, unknown>;
+
+    expect(state['RunCreator']).toBeUndefined();
+  });
+
+  it('logs the changes which could not wait for the lock', () => {
+    const logError = jest.fn();
+
+    StateManager.setLogger({ ...createLogger(), logError });
+    // the lock of a running process which is not stale yet
+    writeFileSync(join(StateManager.getSessionDir(), 'state.lock'), String(process.ppid));
+    StateManager.setRunId(9);
+
+    expect(logError.mock.calls[0]?.[0]).toBe('Unable to update the session state:');
+  });
+
+  it('keeps the sessions of the different runs apart', () => {
+    const sessionId = process.env['QASE_SESSION_ID'];
+    const getSessionId = (runId: string): string => {
+      Reflect.deleteProperty(process.env, 'QASE_SESSION_ID');
+      process.env['QASE_TESTOPS_RUN_ID'] = runId;
+
+      return StateManager.getSessionId();
+    };
+
+    try {
+      expect(getSessionId('1')).not.toBe(getSessionId('2'));
+    } finally {
+      process.env['QASE_SESSION_ID'] = sessionId;
+      Reflect.deleteProperty(process.env, 'QASE_TESTOPS_RUN_ID');
+    }
+  });
+});
@@ -0,0 +1,36 @@
+import { jest, describe, it, expect } from '@jest/globals';
+
+import { formatRunTemplate, getRunTemplateValues } from '../../src/utils/format-run-template';
+
+describe('formatRunTemplate', () => {
+  it('replaces the placeholders with their values', () => {
+    const title = formatRunTemplate('{framework} run of {branch}', {
+      framework: () => 'jest',
+      branch: () => 'main',
+    });
+
+    expect(title).toBe('jest run of main');
+  });
+
+  it('removes the placeholders without a value and keeps the unknown ones', () => {
+    const title = formatRunTemplate('Run {pr} {unknown}', { pr: () => undefined });
+
+    expect(title).toBe('Run  {unknown}');
+  });
+
+  it('computes only the values used by the template', () => {
+    const commit = jest.fn(() => 'abc');
+
+    formatRunTemplate('Run of {branch}', { branch: () => 'main', commit });
+
+    expect(commit.mock.calls).toHaveLength(0);
+  });
+});
+
+describe('getRunTemplateValues', () => {
+  it('takes the environment and the framework of the run', () => {
+    const values = getRunTemplateValues({ framework: 'jest', environment: 'staging' });
+
+    expect(formatRunTemplate('{framework} on {env}', values)).toBe('jest on staging');
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { isUnreachableError } from '../../src/utils/is-unreachable-error';
+import { QaseError } from '../../src/utils/qase-error';
+import { axiosError } from '../mocks';
+
+describe('isUnreachableError', () => {
+  it('is true for the network errors, the timeouts and the server errors', () => {
+    expect(isUnreachableError(axiosError(undefined, 'Network Error'))).toBe(true);
+    expect(isUnreachableError(axiosError(undefined, 'timeout of 5000ms exceeded'))).toBe(true);
+    expect(isUnreachableError(axiosError(502))).toBe(true);
+  });
+
+  it('is false for the client errors', () => {
+    expect(isUnreachableError(axiosError(400))).toBe(false);
+    expect(isUnreachableError(axiosError(401))).toBe(false);
+    expect(isUnreachableError(new Error('Cannot create run.'))).toBe(false);
+  });
+
+  it('checks the cause of a QaseError', () => {
+    expect(isUnreachableError(new QaseError('Error on creating run', { cause: axiosError(503) }))).toBe(true);
+    expect(isUnreachableError(new QaseError('Error on creating run: Not found.'))).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { TestResultType, TestStatusEnum } from '../../src/models';
+import { RetryCollector } from '../../src/utils/retry-collector';
+
+/**
+ * @param {TestStatusEnum} status
+ * @param {string} message
+ * @returns {TestResultType}
+ */
+const createAttempt = (status: TestStatusEnum, message: string | null = null): TestResultType => {
+  const result = new TestResultType('test');
+
+  result.signature = 'suite::test';
+  result.execution.status = status;
+  result.message = message;
+
+  return result;
+};
+
+describe('RetryCollector', () => {
+  it('attaches the earlier attempts to the final result', () => {
+    const collector = new RetryCollector();
+
+    collector.addAttempt(createAttempt(TestStatusEnum.failed, 'timeout'));
+
+    const result = collector.complete(createAttempt(TestStatusEnum.passed));
+
+    expect(result.attempts).toEqual([
+      expect.objectContaining({ message: 'timeout', execution: expect.objectContaining({ status: 'failed' }) }),
+    ]);
+    expect(result.message).toBe('Passed on retry 1\n\nAttempt 1: failed\ntimeout');
+    expect(collector.getPending()).toEqual([]);
+  });
+
+  it('leaves the results of the tests without retries as they are', () => {
+    const attempt = createAttempt(TestStatusEnum.passed);
+
+    expect(new RetryCollector().complete(attempt)).toBe(attempt);
+  });
+
+  it('gets the pending attempts without removing them', () => {
+    const collector = new RetryCollector();
+    const first = createAttempt(TestStatusEnum.failed, 'first');
+    const second = createAttempt(TestStatusEnum.failed, 'second');
+
+    collector.addAttempt(first);
+    collector.addAttempt(second);
+
+    const pending = collector.getPending();
+
+    expect(pending).toHaveLength(1);
+    expect(pending[0]?.message).toBe('second\n\nFinal status failed after 2 attempts\n\nAttempt 1: failed\nfirst');
+    expect(second.message).toBe('second');
+    expect(collector.getPending()).toEqual(pending);
+
+    expect(collector.flush()).toEqual(pending);
+    expect(collector.getPending()).toEqual([]);
+  });
+
+  it('keeps one copy of the files reported by every attempt', () => {
+    const collector = new RetryCollector();
+    const attachment = {
+      file_name: 'trace.zip',
+      file_path: '/tmp/trace.zip',
+      mime_type: 'application/zip',
+      content: '',
+      size: 0,
+      id: '1',
+    };
+    const attempt = createAttempt(TestStatusEnum.failed);
+    const result = createAttempt(TestStatusEnum.failed);
+
+    attempt.attachments = [attachment];
+    result.attachments = [{ ...attachment, id: '2' }];
+    collector.addAttempt(attempt);
+
+    expect(collector.complete(result).attachments).toEqual([attachment]);
+  });
+});
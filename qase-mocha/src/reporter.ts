@@ -88,6 +88,7 @@ export class MochaQaseReporter extends reporters.Base {
     this.runner.on(Events.EVENT_TEST_BEGIN, () => this.onStartTest());
     // eslint-disable-next-line @typescript-eslint/no-misused-promises
     this.runner.on(Events.EVENT_TEST_END, async (test) => await this.onEndTest(test));
+    this.runner.on(Events.EVENT_TEST_RETRY, (test: Mocha.Test, error: Error) => this.onRetryTest(test, error));
   };
 
   private onStartRun() {
@@ -96,6 +97,10 @@ export class MochaQaseReporter extends reporters.Base {
 
   private onEndRun() {
     deasyncPromise(this.reporter.publish());
+
+    // Mocha sets the exit code from the failures count after this listener
+    const { muted } = this.reporter.getFailureStats();
+    this.runner.failures = Math.max(0, this.runner.failures - muted);
   }
 
   private addMethods(ctx?: Context) {
@@ -110,6 +115,7 @@ export class MochaQaseReporter extends reporters.Base {
     ctx.ignore = this.ignore;
     ctx.attach = this.attach;
     ctx.comment = this.comment;
+    ctx.issue = this.issue;
     ctx.step = this.step;
   }
 
@@ -122,6 +128,36 @@ export class MochaQaseReporter extends reporters.Base {
       return;
     }
 
+    await this.reporter.addTestResult(this.createTestResult(test));
+
+    this.metadata.clear();
+    this.currentTest = new currentTest();
+  }
+
+  /**
+   * Mocha doesn't end the attempts which are going to be retried
+   *
+   * @param {Mocha.Test} test
+   * @param {Error} error
+   * @private
+   */
+  private onRetryTest(test: Mocha.Test, error: Error) {
+    if (!this.metadata.ignore) {
+      this.reporter.addTestAttempt(this.createTestResult(test, error));
+    }
+
+    this.metadata.clear();
+    this.currentTest = new currentTest();
+  }
+
+  /**
+   * @param {Mocha.Test} test
+   * @param {Error | undefined} error of the retried attempt
+   * @returns {TestResultType}
+   * @private
+   */
+  private createTestResult(test: Mocha.Test, error?: Error): TestResultType {
+
     const ids = this.getQaseId();
     const suites = this.getSuites(test);
     let relations = {};
@@ -141,9 +177,10 @@ export class MochaQaseReporter extends reporters.Base {
       };
     }
 
+    const err = error ?? test.err;
     let message = this.metadata.comment;
-    if (test.err?.message) {
-      message += '\n\n' + test.err.message;
+    if (err?.message) {
+      message += '\n\n' + err.message;
     }
 
     const result: TestResultType = {
@@ -160,23 +197,26 @@ export class MochaQaseReporter extends reporters.Base {
       steps: this.currentTest.steps,
       id: uuidv4(),
       execution: {
-        status: test.state
-          ? MochaQaseReporter.statusMap[test.state]
-          : TestStatusEnum.invalid,
+        status: error
+          ? TestStatusEnum.failed
+          : test.state
+            ? MochaQaseReporter.statusMap[test.state]
+            : TestStatusEnum.invalid,
         start_time: null,
         end_time: null,
         duration: test.duration ?? 0,
-        stacktrace: test.err?.stack ?? null,
+        stacktrace: err?.stack ?? null,
         thread: null,
       },
       testops_id: ids.length > 0 ? ids : null,
       title: this.metadata.title && this.metadata.title != '' ? this.metadata.title : test.title,
     };
 
-    await this.reporter.addTestResult(result);
+    if (this.metadata.issues && this.metadata.issues.length > 0) {
+      result.issues = [...this.metadata.issues];
+    }
 
-    this.metadata.clear();
-    this.currentTest = new currentTest();
+    return result;
   }
 
   /**
@@ -303,6 +343,10 @@ export class MochaQaseReporter extends reporters.Base {
     this.metadata.addComment(message);
   };
 
+  issue = (key: string | string[]) => {
+    this.metadata.addIssue(key);
+  };
+
   step = (title: string, func: () => void) => {
 
     const previousType = this.currentType;
@@ -36,6 +36,8 @@ export interface Methods {
 
   comment(message: string): void;
 
+  issue(key: string | string[]): void;
+
   step(title: string, func: () => void): void;
 }
 
@@ -48,6 +50,7 @@ export class Metadata {
   ignore?: boolean;
   suite?: string;
   comment?: string;
+  issues?: string[];
   attachments?: Attachment[];
 
   constructor() {
@@ -62,6 +65,10 @@ export class Metadata {
     this.comment += message + '\n\n';
   }
 
+  addIssue(key: string | string[]) {
+    this.issues?.push(...Array.isArray(key) ? key : [key]);
+  }
+
   addAttachment(attach: { name?: string, paths?: string | string[], content?: Buffer | string, contentType?: string }) {
     if (attach.paths !== undefined) {
       const files = Array.isArray(attach.paths) ? attach.paths : [attach.paths];
@@ -100,6 +107,7 @@ export class Metadata {
     this.ignore = false;
     this.suite = '';
     this.comment = '';
+    this.issues = [];
     this.attachments = [];
   }
 }
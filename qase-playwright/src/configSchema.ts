@@ -0,0 +1,31 @@
+import { JSONSchemaType } from 'ajv'
+
+import { FrameworkOptionsType } from 'qase-javascript-commons'
+
+import { ReporterOptionsType } from './options'
+
+export const configSchema: JSONSchemaType<FrameworkOptionsType<'playwright', ReporterOptionsType>> = {
+  type: 'object',
+  nullable: true,
+
+  properties: {
+    framework: {
+      type: 'object',
+      nullable: true,
+
+      properties: {
+        playwright: {
+          type: 'object',
+          nullable: true,
+
+          properties: {
+            projectParams: {
+              type: 'boolean',
+              nullable: true,
+            }
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export interface ReporterOptionsType {
+  projectParams?: boolean | undefined;
+}
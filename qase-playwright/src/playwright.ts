@@ -16,6 +16,7 @@ export interface MetadataMessage {
   ignore?: boolean;
   suite?: string;
   comment?: string;
+  issues?: string[];
 }
 
 /**
@@ -244,6 +245,22 @@ qase.comment = function(value: string) {
   return this;
 };
 
+/**
+ * Link the test case to the external issues, e.g. in Jira
+ * @param {string | string[]} value
+ * @example
+ * test('test', async ({ page }) => {
+ *    qase.issue("PROJ-123");
+ *    await page.goto('https://example.com');
+ * });
+ */
+qase.issue = function(value: string | string[]) {
+  addMetadata({
+    issues: Array.isArray(value) ? value : [value],
+  });
+  return this;
+};
+
 const addMetadata = (metadata: MetadataMessage): void => {
   test.info().attach('qase-metadata.json', {
     contentType: ReporterContentType,
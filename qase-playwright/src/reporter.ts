@@ -1,4 +1,14 @@
-import { Reporter, TestCase, TestError, TestResult, TestStatus, TestStep } from '@playwright/test/reporter';
+import {
+  FullConfig,
+  FullResult,
+  Reporter,
+  Suite,
+  TestCase,
+  TestError,
+  TestResult,
+  TestStatus,
+  TestStep,
+} from '@playwright/test/reporter';
 import { v4 as uuidv4 } from 'uuid';
 import chalk from 'chalk';
 import * as path from 'path';
@@ -9,6 +19,7 @@ import {
   CompoundError,
   ConfigLoader,
   ConfigType,
+  FrameworkOptionsType,
   QaseReporter,
   ReporterInterface,
   StepStatusEnum,
@@ -18,6 +29,8 @@ import {
   TestStepType,
 } from 'qase-javascript-commons';
 import { MetadataMessage, ReporterContentType } from './playwright';
+import { configSchema } from './configSchema';
+import { ReporterOptionsType } from './options';
 
 type ArrayItemType<T> = T extends (infer R)[] ? R : never;
 
@@ -34,9 +47,10 @@ interface TestCaseMetadata {
   ignore: boolean;
   suite: string;
   comment: string;
+  issues: string[];
 }
 
-export type PlaywrightQaseOptionsType = ConfigType;
+export type PlaywrightQaseOptionsType = ConfigType & FrameworkOptionsType<'playwright', ReporterOptionsType>;
 
 /**
  * @class PlaywrightQaseReporter
@@ -105,6 +119,7 @@ export class PlaywrightQaseReporter implements Reporter {
       ignore: false,
       suite: '',
       comment: '',
+      issues: [],
     };
     const attachments: Attachment[] = [];
 
@@ -150,6 +165,10 @@ export class PlaywrightQaseReporter implements Reporter {
           metadata.groupParams = message.groupParams;
         }
 
+        if (message.issues) {
+          metadata.issues.push(...message.issues);
+        }
+
         continue;
       }
 
@@ -293,18 +312,46 @@ export class PlaywrightQaseReporter implements Reporter {
    */
   private reporter: ReporterInterface;
 
+  /**
+   * Add the project settings to the params, by default only if there are several projects
+   * @type {boolean | undefined}
+   * @private
+   */
+  private projectParams: boolean | undefined;
+
+  /**
+   * @type {FullConfig | undefined}
+   * @private
+   */
+  private config: FullConfig | undefined;
+
+  /**
+   * @type {Suite | undefined}
+   * @private
+   */
+  private rootSuite: Suite | undefined;
+
+  /**
+   * Errors outside of the tests, e.g. in the global setup
+   * @type {number}
+   * @private
+   */
+  private globalErrors = 0;
+
   /**
    * @param {PlaywrightQaseOptionsType} options
    * @param {ConfigLoaderInterface} configLoader
    */
   public constructor(
     options: PlaywrightQaseOptionsType,
-    configLoader = new ConfigLoader(),
+    configLoader = new ConfigLoader(configSchema),
   ) {
     const config = configLoader.load();
+    const { framework, ...composedOptions } = composeOptions(options, config);
 
+    this.projectParams = framework?.playwright?.projectParams;
     this.reporter = QaseReporter.getInstance({
-      ...composeOptions(options, config),
+      ...composedOptions,
       frameworkPackage: '@playwright/test',
       frameworkName: 'playwright',
       reporterName: 'playwright-qase-reporter',
@@ -326,7 +373,14 @@ export class PlaywrightQaseReporter implements Reporter {
     this.stepCache.set(step, test);
   }
 
-  public onBegin(): void {
+  /**
+   * @param {FullConfig} config
+   * @param {Suite} suite
+   */
+  public onBegin(config: FullConfig, suite: Suite): void {
+    this.config = config;
+    this.rootSuite = suite;
+    this.projectParams ??= config.projects.length > 1;
     this.reporter.startTestRun();
   }
 
@@ -360,6 +414,7 @@ export class PlaywrightQaseReporter implements Reporter {
     }
 
     const testTitle = this.removeQaseIdsFromTitle(test.title);
+    const parameters = { ...this.getProjectParams(test), ...testCaseMetadata.parameters };
 
     const testResult: TestResultType = {
       attachments: testCaseMetadata.attachments,
@@ -378,7 +433,7 @@ export class PlaywrightQaseReporter implements Reporter {
       id: uuidv4(),
       message: message,
       muted: false,
-      params: testCaseMetadata.parameters,
+      params: parameters,
       group_params: testCaseMetadata.groupParams,
       relations: {
         suite: {
@@ -399,6 +454,10 @@ export class PlaywrightQaseReporter implements Reporter {
       title: testCaseMetadata.title === '' ? testTitle : testCaseMetadata.title,
     };
 
+    if (testCaseMetadata.issues.length > 0) {
+      testResult.issues = testCaseMetadata.issues;
+    }
+
     if (this.reporter.isCaptureLogs()) {
       if (result.stdout.length > 0) {
         testResult.attachments.push(this.convertLogsToAttachments(result.stdout, 'stdout.log'));
@@ -420,15 +479,92 @@ export class PlaywrightQaseReporter implements Reporter {
       }
     }
 
-    testResult.signature = this.getSignature(suites, testCaseMetadata.parameters, testResult.testops_id ?? []);
+    testResult.signature = this.getSignature(suites, parameters, testResult.testops_id ?? []);
+
+    if (PlaywrightQaseReporter.willRetry(test, result)) {
+      this.reporter.addTestAttempt(testResult);
+      return;
+    }
 
     await this.reporter.addTestResult(testResult);
   }
 
   /**
-   * @returns {Promise<void>}
+   * The project settings tell apart the results of a test run in several browsers or devices
+   *
+   * @param {TestCase} test
+   * @returns {Record<string, string>}
+   * @private
+   */
+  private getProjectParams(test: TestCase): Record<string, string> {
+    const project = test.parent.project();
+
+    if (!this.projectParams || !project) {
+      return {};
+    }
+
+    const { browserName, defaultBrowserType, viewport, isMobile } = project.use;
+    const params: Record<string, string> = {};
+    const browser = browserName ?? defaultBrowserType;
+
+    if (project.name) {
+      params['project'] = project.name;
+    }
+
+    if (browser) {
+      params['browser'] = browser;
+    }
+
+    if (viewport) {
+      params['viewport'] = `${viewport.width}x${viewport.height}`;
+    }
+
+    if (isMobile !== undefined) {
+      params['device'] = isMobile ? 'mobile' : 'desktop';
+    }
+
+    return params;
+  }
+
+  /**
+   * Playwright retries the tests with an unexpected status until the retries are exhausted
+   *
+   * @param {TestCase} test
+   * @param {TestResult} result
+   * @returns {boolean}
+   * @private
+   */
+  private static willRetry(test: TestCase, result: TestResult): boolean {
+    return result.status !== 'interrupted'
+      && result.status !== test.expectedStatus
+      && result.retry < test.retries;
+  }
+
+  /**
+   * Called for the errors outside of the tests
+   */
+  public onError(): void {
+    this.globalErrors++;
+  }
+
+  /**
+   * Playwright uses the status returned by `onEnd` since 1.39
+   *
+   * @param {string | undefined} version
+   * @returns {boolean}
+   * @private
    */
-  public async onEnd(): Promise<void> {
+  private static canOverrideStatus(version: string | undefined): boolean {
+    const [major = 0, minor = 0] = (version ?? '').split('.').map(Number);
+
+    return major > 1 || (major === 1 && minor >= 39);
+  }
+
+  /**
+   * @param {FullResult} result
+   * @returns {Promise<{ status?: FullResult['status'] } | undefined>}
+   */
+  public async onEnd(result: FullResult): Promise<{ status?: FullResult['status'] } | undefined> {
     await this.reporter.publish();
 
     if (this.qaseTestWithOldAnnotation.size > 0) {
@@ -436,6 +572,29 @@ export class PlaywrightQaseReporter implements Reporter {
       console.log(chalk`{yellow qase: Consider using the new syntax: qase.id().title() in the test body. See the docs for reference:}`);
       console.log(chalk`{yellow qase: https://github.com/qase-tms/qase-javascript/tree/main/qase-playwright#readme}`);
     }
+
+    const { failed, muted } = this.reporter.getFailureStats();
+
+    if (result.status !== 'failed' || failed > 0 || muted === 0 || this.globalErrors > 0) {
+      return undefined;
+    }
+
+    const unexpected = this.rootSuite?.allTests().filter((test) => test.outcome() === 'unexpected').length;
+
+    // the run failed only because of the quarantined tests
+    if (unexpected !== muted) {
+      return undefined;
+    }
+
+    if (!PlaywrightQaseReporter.canOverrideStatus(this.config?.version)) {
+      console.log(chalk`{yellow qase: ${muted} failed test(s) are quarantined, but Playwright 1.39 or newer is required to consider the run passed}`);
+
+      return undefined;
+    }
+
+    console.log(chalk`{yellow qase: ${muted} failed test(s) are quarantined, the run is considered passed}`);
+
+    return { status: 'passed' };
   }
 
   // add this method for supporting old version of qase
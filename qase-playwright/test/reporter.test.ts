@@ -0,0 +1,101 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { FullConfig, Suite, TestCase, TestResult } from '@playwright/test/reporter';
+import { ConfigLoader, QaseReporter, TestResultType } from 'qase-javascript-commons';
+
+import { PlaywrightQaseOptionsType, PlaywrightQaseReporter } from '../src/reporter';
+
+interface ProjectType {
+  name: string;
+  use: Record<string, unknown>;
+}
+
+/**
+ * @param {ProjectType} project
+ * @returns {TestCase}
+ */
+const createTest = (project: ProjectType): TestCase => ({
+  title: 'logs in',
+  titlePath: () => ['', project.name, 'login.spec.ts', 'logs in'],
+  parent: { project: () => project },
+  location: { file: 'login.spec.ts', line: 1, column: 1 },
+  expectedStatus: 'passed',
+  retries: 0,
+} as unknown as TestCase);
+
+const result = {
+  status: 'passed',
+  startTime: new Date(0),
+  duration: 10,
+  parallelIndex: 0,
+  retry: 0,
+  attachments: [],
+  steps: [],
+  errors: [],
+  stdout: [],
+  stderr: [],
+} as unknown as TestResult;
+
+describe('PlaywrightQaseReporter', () => {
+  const addTestResult = jest.fn<(result: TestResultType) => Promise<void>>(() => Promise.resolve());
+  const chromium: ProjectType = { name: 'chromium', use: { browserName: 'chromium', viewport: { width: 1280, height: 720 } } };
+  const mobile: ProjectType = { name: 'Mobile Safari', use: { defaultBrowserType: 'webkit', isMobile: true } };
+
+  /**
+   * @param {boolean | undefined} projectParams
+   * @param {number} projects
+   * @returns {PlaywrightQaseReporter}
+   */
+  const createReporter = (projectParams: boolean | undefined, projects: number): PlaywrightQaseReporter => {
+    const reporter = new PlaywrightQaseReporter(
+      { framework: { playwright: { projectParams } } },
+      { load: () => null } as unknown as ConfigLoader<PlaywrightQaseOptionsType>,
+    );
+
+    reporter.onBegin({ projects: Array.from({ length: projects }, () => ({})) } as unknown as FullConfig, {} as Suite);
+
+    return reporter;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(QaseReporter, 'getInstance').mockReturnValue({
+      startTestRun: jest.fn(),
+      addTestResult,
+      isCaptureLogs: () => false,
+    } as unknown as QaseReporter);
+  });
+
+  it('adds the project settings to the params when there are several projects', async () => {
+    const reporter = createReporter(undefined, 2);
+
+    await reporter.onTestEnd(createTest(chromium), result);
+    await reporter.onTestEnd(createTest(mobile), result);
+
+    expect(addTestResult.mock.calls.map(([testResult]) => testResult.params)).toEqual([
+      { project: 'chromium', browser: 'chromium', viewport: '1280x720' },
+      { project: 'Mobile Safari', browser: 'webkit', device: 'mobile' },
+    ]);
+    expect(addTestResult.mock.calls[0]?.[0].signature).not.toBe(addTestResult.mock.calls[1]?.[0].signature);
+  });
+
+  it('leaves the params of a single project as they are', async () => {
+    const reporter = createReporter(undefined, 1);
+
+    await reporter.onTestEnd(createTest(chromium), result);
+
+    expect(addTestResult.mock.calls[0]?.[0].params).toEqual({});
+  });
+
+  it('follows the projectParams option', async () => {
+    const enabled = createReporter(true, 1);
+    const disabled = createReporter(false, 2);
+
+    await enabled.onTestEnd(createTest(chromium), result);
+    await disabled.onTestEnd(createTest(chromium), result);
+
+    expect(addTestResult.mock.calls.map(([testResult]) => testResult.params)).toEqual([
+      { project: 'chromium', browser: 'chromium', viewport: '1280x720' },
+      {},
+    ]);
+  });
+});
@@ -5,6 +5,7 @@ export class qase {
   private static _qaseFields = '';
   private static _qaseParameters = '';
   private static _qaseGroupParameters = '';
+  private static _qaseIssues = '';
 
   /**
    * Set a Qase ID for the test case
@@ -81,6 +82,19 @@ export class qase {
     return this;
   };
 
+  /**
+   * Link the test case to the external issues, e.g. in Jira
+   * Don't forget to call `create` method after setting all the necessary parameters
+   * @param {string | string[]} value
+   * @example
+   * const q = qase.id(1).issue('PROJ-123').create();
+   * test.meta(q)('Test case title', async t => { ... });
+   */
+  public static issue = (value: string | string[]) => {
+    this._qaseIssues = Array.isArray(value) ? value.join(',') : value;
+    return this;
+  };
+
   /**
    * Create a Qase metadata
    * Call this method after setting all the necessary parameters
@@ -97,6 +111,7 @@ export class qase {
       QaseFields: this._qaseFields,
       QaseParameters: this._qaseParameters,
       QaseGroupParameters: this._qaseGroupParameters,
+      QaseIssues: this._qaseIssues,
     };
 
     this._qaseID = '';
@@ -104,6 +119,7 @@ export class qase {
     this._qaseFields = '';
     this._qaseParameters = '';
     this._qaseGroupParameters = '';
+    this._qaseIssues = '';
 
     return meta;
   };
@@ -53,6 +53,7 @@ enum metadataEnum {
   fields = 'QaseFields',
   parameters = 'QaseParameters',
   groupParameters = 'QaseGroupParameters',
+  issues = 'QaseIssues',
   oldID = 'CID',
 }
 
@@ -62,6 +63,7 @@ interface MetadataType {
   [metadataEnum.fields]: Record<string, string>;
   [metadataEnum.parameters]: Record<string, string>;
   [metadataEnum.groupParameters]: Record<string, string>;
+  [metadataEnum.issues]: string[];
 }
 
 export interface TestRunInfoType {
@@ -202,6 +204,7 @@ export class TestcafeQaseReporter {
       id: uuidv4(),
       testops_id: metadata[metadataEnum.id].length > 0 ? metadata[metadataEnum.id] : null,
       title: metadata[metadataEnum.title] != undefined ? metadata[metadataEnum.title] : title,
+      issues: metadata[metadataEnum.issues],
       attachments: TestcafeQaseReporter.transformAttachments(
         testRunInfo.screenshots,
       ),
@@ -222,6 +225,7 @@ export class TestcafeQaseReporter {
       QaseFields: {},
       QaseParameters: {},
       QaseGroupParameters: {},
+      QaseIssues: [],
     };
 
     if (meta[metadataEnum.oldID] !== undefined && meta[metadataEnum.oldID] !== '') {
@@ -246,6 +250,10 @@ export class TestcafeQaseReporter {
       metadata.QaseParameters = JSON.parse(meta[metadataEnum.parameters]) as Record<string, string>;
     }
 
+    if (meta[metadataEnum.issues] !== undefined && meta[metadataEnum.issues] !== '') {
+      metadata.QaseIssues = meta[metadataEnum.issues].split(',');
+    }
+
     return metadata;
   }
 
@@ -4,6 +4,7 @@ export const events = {
   addFields: 'qase:fields',
   addSuite: 'qase:suite',
   addIgnore: 'qase:ignore',
+  addIssue: 'qase:issue',
   addParameters: 'qase:parameters',
   addGroupParameters: 'qase:groupParameters',
   addAttachment: 'qase:attachment',
@@ -14,6 +14,10 @@ export interface AddSuiteEventArgs {
   suite: string;
 }
 
+export interface AddIssueEventArgs {
+  issues: string[];
+}
+
 export interface AddAttachmentEventArgs {
   name?: string;
   type?: string;
@@ -31,6 +31,7 @@ import {
   AddQaseIdEventArgs,
   AddRecordsEventArgs,
   AddSuiteEventArgs,
+  AddIssueEventArgs,
   AddTitleEventArgs,
 } from './models';
 import path from 'path';
@@ -135,6 +136,9 @@ export default class WDIOQaseReporter extends WDIOReporter {
           case '@suite':
             this.addSuite({ suite: tagData.value });
             break;
+          case '@issue':
+            this.addIssue({ issues: tagData.value.split(',') });
+            break;
         }
       }
 
@@ -243,7 +247,8 @@ export default class WDIOQaseReporter extends WDIOReporter {
 
     await this._endTest(WDIOQaseReporter.statusMap[test.state] ?? TestStatusEnum.skipped,
       error,
-      test.end ? test.end.valueOf() / 1000 : Date.now().valueOf() / 1000);
+      test.end ? test.end.valueOf() / 1000 : Date.now().valueOf() / 1000,
+      true);
   }
 
   override async onTestFail(test: TestStats) {
@@ -269,7 +274,12 @@ export default class WDIOQaseReporter extends WDIOReporter {
       null);
   }
 
-  private async _endTest(status: TestStatusEnum, err: CompoundError | null, end_time: number = Date.now().valueOf() / 1000) {
+  private async _endTest(
+    status: TestStatusEnum,
+    err: CompoundError | null,
+    end_time: number = Date.now().valueOf() / 1000,
+    isRetry = false,
+  ) {
     const testResult = this.storage.getCurrentTest();
     if (testResult === undefined || this.storage.ignore) {
       return;
@@ -298,6 +308,11 @@ export default class WDIOQaseReporter extends WDIOReporter {
       null : err.message === undefined ?
         null : err.message;
 
+    if (isRetry) {
+      this.reporter.addTestAttempt(testResult);
+      return;
+    }
+
     await this.reporter.addTestResult(testResult);
   }
 
@@ -353,6 +368,7 @@ export default class WDIOQaseReporter extends WDIOReporter {
     process.on(events.addGroupParameters, this.addGroupParameters.bind(this));
     process.on(events.addAttachment, this.addAttachment.bind(this));
     process.on(events.addIgnore, this.ignore.bind(this));
+    process.on(events.addIssue, this.addIssue.bind(this));
     process.on(events.addStep, this.addStep.bind(this));
   }
 
@@ -392,6 +408,15 @@ export default class WDIOQaseReporter extends WDIOReporter {
     };
   }
 
+  addIssue({ issues }: AddIssueEventArgs) {
+    const curTest = this.storage.getCurrentTest();
+    if (!curTest) {
+      return;
+    }
+
+    curTest.issues = [...curTest.issues ?? [], ...issues];
+  }
+
   addParameters({ records }: AddRecordsEventArgs) {
     const curTest = this.storage.getCurrentTest();
     if (!curTest) {
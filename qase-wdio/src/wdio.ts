@@ -77,6 +77,17 @@ export class qase {
     return this;
   }
 
+  /**
+   * Link the test case to the external issues, e.g. in Jira
+   * @name issue
+   * @param {string | string[]} value
+   */
+  public static issue(value: string | string[]) {
+    sendEvent(events.addIssue, { issues: Array.isArray(value) ? value : [value] });
+
+    return this;
+  }
+
   /**
    * Assign ignore mark to test
    * @name ignore
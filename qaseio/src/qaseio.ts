@@ -15,6 +15,7 @@ import {
   DefectsApi,
   CustomFieldsApi,
   AuthorsApi,
+  ConfigurationsApi,
   Configuration, EnvironmentsApi,
 } from './generated';
 
@@ -41,6 +42,7 @@ export interface QaseApiInterface {
   customFields: CustomFieldsApi;
   authors: AuthorsApi;
   environment: EnvironmentsApi;
+  configurations: ConfigurationsApi;
 }
 
 /**
@@ -62,6 +64,7 @@ export class QaseApi implements QaseApiInterface {
   public customFields: CustomFieldsApi;
   public authors: AuthorsApi;
   public environment: EnvironmentsApi;
+  public configurations: ConfigurationsApi;
 
   /**
    * @param {QaseApiOptionsType} options
@@ -125,5 +128,6 @@ export class QaseApi implements QaseApiInterface {
     this.customFields = new CustomFieldsApi(configuration, host, transport);
     this.authors = new AuthorsApi(configuration, host, transport);
     this.environment = new EnvironmentsApi(configuration, host, transport);
+    this.configurations = new ConfigurationsApi(configuration, host, transport);
   }
 }